@@ -0,0 +1,82 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { connect as wbconnect, Worterbuch } from "worterbuch-js";
+import { Logger } from "./logger";
+
+export type AuthTokenProvider = () =>
+  | string
+  | undefined
+  | Promise<string | undefined>;
+
+export type AuthToken = string | AuthTokenProvider;
+
+export class AuthFailedError extends Error {
+  cause: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "AuthFailedError";
+    this.cause = cause;
+  }
+}
+
+const MISSING_TOKEN =
+  /^Server requires authorization but no auth token was provided\./;
+const REJECTED =
+  /^Connection to server was closed unexpectedly \(code: (?:1008|4001|4003)\)|^Connection to server was closed unexpectedly \(code: [^)]*\): .*(?:authori[sz]|auth token|unauthenticated|forbidden)/i;
+
+// worterbuch-js does not report auth rejections with a dedicated error, so
+// they are recognized by the messages it rejects the connection with
+export function isAuthFailure(e: unknown): boolean {
+  if (e instanceof AuthFailedError) {
+    return true;
+  }
+  return (
+    e instanceof Error &&
+    (MISSING_TOKEN.test(e.message) || REJECTED.test(e.message))
+  );
+}
+
+export async function resolveAuthToken(
+  token: AuthToken | undefined
+): Promise<string | undefined> {
+  // a failing provider is treated like any other connection error and retried
+  return typeof token === "function" ? token() : token;
+}
+
+export async function connectAuthorized(
+  addresses: string[],
+  token: string | undefined,
+  logger: Logger
+): Promise<Worterbuch> {
+  for (const address of addresses) {
+    try {
+      return await wbconnect(address, token);
+    } catch (e) {
+      if (isAuthFailure(e)) {
+        // all servers of a cluster share their auth config, trying the
+        // remaining ones with the same token would be pointless
+        throw new AuthFailedError(
+          `Server ${address} rejected the auth token.`,
+          e
+        );
+      }
+      logger.error(`Could not connect to ${address}:`, e);
+    }
+  }
+  throw new Error("could not connect to any of the provided addresses");
+}
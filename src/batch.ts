@@ -0,0 +1,219 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Key,
+  KeyValuePairs,
+  RequestPattern,
+  Value,
+  Worterbuch,
+} from "worterbuch-js";
+import React from "react";
+import { WB, useWb } from "./context";
+import { toError } from "./result";
+
+export type BatchOperation =
+  | { op: "set"; key: Key; value: Value }
+  | { op: "delete"; key: Key }
+  | { op: "pDelete"; key: RequestPattern };
+
+export type BatchResult = {
+  op: BatchOperation["op"];
+  key: Key | RequestPattern;
+  ok: boolean;
+  error?: Error;
+  deleted?: KeyValuePairs<Value>;
+};
+
+export type BatchCommit = {
+  ok: boolean;
+  results: BatchResult[];
+  // true if the previous values were written back after a failure
+  restored: boolean;
+};
+
+export type BatchOptions = {
+  restoreOnFailure?: boolean;
+};
+
+export type Batch = {
+  set: <T extends Value>(key: Key, value: T) => Batch;
+  delete: (key: Key) => Batch;
+  pDelete: (pattern: RequestPattern) => Batch;
+  operations: () => BatchOperation[];
+  clear: () => void;
+  commit: (options?: BatchOptions) => Promise<BatchCommit>;
+};
+
+type Previous = Map<Key, Value | undefined>;
+
+async function readPrevious(
+  conn: Worterbuch,
+  operations: BatchOperation[]
+): Promise<Previous> {
+  const previous: Previous = new Map();
+  for (const operation of operations) {
+    if (operation.op === "pDelete") {
+      const kvps = await conn.pGet<Value>(operation.key);
+      kvps.forEach(({ key, value }) => {
+        if (!previous.has(key)) {
+          previous.set(key, value);
+        }
+      });
+    } else if (!previous.has(operation.key)) {
+      previous.set(operation.key, await conn.get<Value>(operation.key));
+    }
+  }
+  return previous;
+}
+
+function send(wb: WB, conn: Worterbuch, operation: BatchOperation) {
+  switch (operation.op) {
+    case "set":
+      return wb.pendingWrites
+        .track(operation.key, conn.set(operation.key, operation.value))
+        .then(() => undefined);
+    case "delete":
+      return wb.pendingWrites
+        .track(operation.key, conn.delete(operation.key))
+        .then(() => undefined);
+    case "pDelete":
+      return conn.pDelete<Value>(operation.key);
+  }
+}
+
+async function restore(wb: WB, previous: Previous): Promise<boolean> {
+  const conn = wb.connection;
+  const writes: Promise<unknown>[] = [];
+  let queued = false;
+  previous.forEach((value, key) => {
+    if (conn) {
+      writes.push(
+        value === undefined ? conn.delete(key) : conn.set(key, value)
+      );
+    } else if (wb.outbox) {
+      // written on the next reconnect, so it does not count as restored yet
+      wb.outbox.enqueue(
+        value === undefined ? { op: "delete", key } : { op: "set", key, value }
+      );
+      queued = true;
+    } else {
+      writes.push(Promise.reject(new Error("not connected")));
+    }
+  });
+  return Promise.all(writes).then(
+    () => !queued,
+    () => false
+  );
+}
+
+async function commitBatch(
+  wb: WB,
+  operations: BatchOperation[],
+  options: BatchOptions | undefined
+): Promise<BatchCommit> {
+  const fail = (error: Error): BatchCommit => ({
+    ok: false,
+    results: operations.map(({ op, key }) => ({ op, key, ok: false, error })),
+    restored: false,
+  });
+
+  const conn = wb.connection;
+  if (!conn) {
+    // nothing is sent unless the whole batch can be sent
+    return fail(new Error("not connected"));
+  }
+  if (operations.length === 0) {
+    return { ok: true, results: [], restored: false };
+  }
+
+  let previous: Previous | undefined;
+  if (options?.restoreOnFailure) {
+    try {
+      previous = await readPrevious(conn, operations);
+    } catch (e) {
+      return fail(toError(e));
+    }
+  }
+
+  const release = wb.subscriptions.hold(operations.map(({ key }) => key));
+  try {
+    const results = await Promise.all(
+      operations.map(
+        (operation): Promise<BatchResult> =>
+          send(wb, conn, operation).then(
+            (deleted) => ({
+              op: operation.op,
+              key: operation.key,
+              ok: true,
+              deleted,
+            }),
+            (e) => ({
+              op: operation.op,
+              key: operation.key,
+              ok: false,
+              error: toError(e),
+            })
+          )
+      )
+    );
+    // one more round trip lets the events caused by the batch arrive before
+    // subscribers are notified, a pattern cannot be used for a plain get
+    const barrier = operations.find(({ op }) => op !== "pDelete");
+    if (barrier) {
+      await conn.get(barrier.key).catch(() => undefined);
+    }
+    const ok = results.every((r) => r.ok);
+    const restored = !ok && previous ? await restore(wb, previous) : false;
+    return { ok, results, restored };
+  } finally {
+    release();
+  }
+}
+
+export function useBatch(connection?: string): Batch {
+  const wb = useWb(connection);
+  const wbRef = React.useRef(wb);
+  wbRef.current = wb;
+
+  return React.useMemo(() => {
+    let operations: BatchOperation[] = [];
+    const batch: Batch = {
+      set: (key, value) => {
+        operations.push({ op: "set", key, value });
+        return batch;
+      },
+      delete: (key) => {
+        operations.push({ op: "delete", key });
+        return batch;
+      },
+      pDelete: (pattern) => {
+        operations.push({ op: "pDelete", key: pattern });
+        return batch;
+      },
+      operations: () => [...operations],
+      clear: () => {
+        operations = [];
+      },
+      commit: (options) => {
+        const committed = operations;
+        operations = [];
+        return commitBatch(wbRef.current, committed, options);
+      },
+    };
+    return batch;
+  }, []);
+}
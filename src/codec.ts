@@ -0,0 +1,151 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key, RequestPattern, Value } from "worterbuch-js";
+import React from "react";
+import { matches } from "./util";
+import { Logger } from "./logger";
+
+export type Codec<T, E extends Value = Value> = {
+  encode(value: T): E;
+  decode(value: E): T;
+};
+
+export type CodecRegistry = { [pattern: RequestPattern]: Codec<unknown> };
+
+export const dateCodec: Codec<Date, string> = {
+  encode: (value) => value.toISOString(),
+  decode: (value) => new Date(value),
+};
+
+export const bigIntCodec: Codec<bigint, string> = {
+  encode: (value) => value.toString(),
+  decode: (value) => BigInt(value),
+};
+
+export const base64Codec: Codec<Uint8Array, string> = {
+  encode: (value) => {
+    let binary = "";
+    value.forEach((byte) => (binary += String.fromCharCode(byte)));
+    return btoa(binary);
+  },
+  decode: (value) => {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  },
+};
+
+export const mapCodec: Codec<Map<Value, Value>, [Value, Value][]> = {
+  encode: (value) => {
+    const entries: [Value, Value][] = [];
+    value.forEach((v, k) => entries.push([k, v]));
+    return entries;
+  },
+  decode: (value) => new Map(value),
+};
+
+export const setCodec: Codec<Set<Value>, Value[]> = {
+  encode: (value) => {
+    const items: Value[] = [];
+    value.forEach((v) => items.push(v));
+    return items;
+  },
+  decode: (value) => new Set(value),
+};
+
+export function lookupCodec(
+  codecs: CodecRegistry | undefined,
+  key: Key
+): Codec<unknown> | undefined {
+  if (!codecs) {
+    return undefined;
+  }
+  const pattern = Object.keys(codecs).find((p) => matches(p, key));
+  return pattern !== undefined ? codecs[pattern] : undefined;
+}
+
+// a value that cannot be decoded is logged and treated as missing, so one
+// malformed value does not break every component that shows it
+export function decodeValue<T>(
+  codec: Codec<unknown> | undefined,
+  value: Value | undefined,
+  logger: Logger
+): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!codec) {
+    return value as T;
+  }
+  try {
+    return codec.decode(value) as T;
+  } catch (e) {
+    logger.error("Could not decode value:", value, e);
+    return undefined;
+  }
+}
+
+export function encodeValue<T>(
+  codec: Codec<unknown> | undefined,
+  value: T
+): Value {
+  return codec ? codec.encode(value) : (value as unknown as Value);
+}
+
+export function decodeValues<T>(
+  codecFor: (key: Key) => Codec<unknown> | undefined,
+  values: Map<Key, Value>,
+  logger: Logger
+): Map<Key, T> {
+  const decoded = new Map<Key, T>();
+  values.forEach((value, key) => {
+    const result = decodeValue<T>(codecFor(key), value, logger);
+    if (result !== undefined) {
+      decoded.set(key, result);
+    }
+  });
+  return decoded;
+}
+
+export function useCodecRegistry(
+  codecs: CodecRegistry | undefined
+): (key: Key) => Codec<unknown> | undefined {
+  const codecsRef = React.useRef(codecs);
+  codecsRef.current = codecs;
+  return React.useCallback(
+    (key: Key) => lookupCodec(codecsRef.current, key),
+    []
+  );
+}
+
+// an explicitly passed codec, always the last argument of a hook, takes
+// precedence over the provider's registry
+export function useCodecFor<T>(
+  codecFor: (key: Key) => Codec<unknown> | undefined,
+  codec: Codec<T> | undefined
+): (key: Key) => Codec<unknown> | undefined {
+  const codecRef = React.useRef(codec);
+  codecRef.current = codec;
+  return React.useCallback(
+    (key: Key) =>
+      (codecRef.current as Codec<unknown> | undefined) ?? codecFor(key),
+    [codecFor]
+  );
+}
@@ -0,0 +1,195 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key, TransactionID, Value, Worterbuch } from "worterbuch-js";
+import React from "react";
+import { PendingWrites, createPendingWrites } from "./pending";
+import { Outbox } from "./outbox";
+import {
+  SubscriptionManager,
+  createSubscriptionManager,
+} from "./subscriptions";
+import type { WbMonitor } from "./monitor";
+import { Logger, createLogger } from "./logger";
+import { Codec } from "./codec";
+
+export enum ConnectionState {
+  NoServerSelected = "NO_SERVER_SELECTED",
+  Connecting = "CONNECTING",
+  CouldNotConnect = "COULD_NOT_CONNECT",
+  AuthFailed = "AUTH_FAILED",
+  Connected = "CONNECTED",
+  Disconnected = "DISCONNECTED",
+}
+
+export enum ConnectionStatus {
+  Warning = "WARNING",
+  Error = "ERROR",
+  Ok = "OK",
+}
+
+export const WbContext = React.createContext<WB>({
+  connection: undefined,
+  address: undefined,
+  state: ConnectionState.Disconnected,
+  status: ConnectionStatus.Error,
+  publishStreams: new Map(),
+  nextReconnect: undefined,
+  reconnectAttempts: 0,
+  reconnect: () => undefined,
+  rotateAuthToken: () => undefined,
+  whenConnected: () => new Promise(() => undefined),
+  pendingWrites: createPendingWrites(),
+  outbox: undefined,
+  subscriptions: createSubscriptionManager(),
+  monitor: () => undefined,
+  attachMonitor: () => () => undefined,
+  client: undefined,
+  willRevision: 0,
+  reviseWill: () => undefined,
+  snapshot: new Map(),
+  logger: createLogger(),
+  selectedAddress: undefined,
+  codecFor: () => undefined,
+});
+
+export type WB = {
+  connection: Worterbuch | undefined;
+  address: string | undefined;
+  state: ConnectionState;
+  status: ConnectionStatus;
+  publishStreams: Map<string, TransactionID>;
+  nextReconnect: number | undefined;
+  reconnectAttempts: number;
+  reconnect: () => void;
+  rotateAuthToken: () => void;
+  whenConnected: () => Promise<Worterbuch>;
+  pendingWrites: PendingWrites;
+  outbox: Outbox | undefined;
+  subscriptions: SubscriptionManager;
+  // only returns a monitor while devtools are mounted, so production builds do
+  // not pay for it
+  monitor: () => WbMonitor | undefined;
+  attachMonitor: (monitor: WbMonitor) => () => void;
+  // the connection without devtools instrumentation
+  client: Worterbuch | undefined;
+  // bumped whenever the last will or grave goods are changed
+  willRevision: number;
+  reviseWill: () => void;
+  snapshot: Map<string, Value>;
+  logger: Logger;
+  // the address that is being or was last connected to
+  selectedAddress: string | undefined;
+  codecFor: (key: Key) => Codec<unknown> | undefined;
+};
+
+export const WbRegistryContext = React.createContext<Map<string, WB>>(
+  new Map()
+);
+
+export function useWb(connection?: string): WB {
+  const wb = React.useContext(WbContext);
+  const registry = React.useContext(WbRegistryContext);
+  if (connection === undefined) {
+    return wb;
+  }
+  const named = registry.get(connection);
+  if (!named) {
+    throw new Error(`No worterbuch connection named '${connection}'.`);
+  }
+  return named;
+}
+
+export function useRegistry(name: string | undefined, wb: WB): Map<string, WB> {
+  const parent = React.useContext(WbRegistryContext);
+  return React.useMemo(
+    () => (name === undefined ? parent : new Map(parent).set(name, wb)),
+    [name, parent, wb]
+  );
+}
+
+export function useOwnerRef(
+  wb: WB
+): React.MutableRefObject<string | undefined> {
+  const ownerRef = React.useRef<string | undefined>();
+  ownerRef.current = wb.monitor()?.owner();
+  return ownerRef;
+}
+
+export function withOwner<R>(
+  monitor: () => WbMonitor | undefined,
+  owner: string | undefined,
+  action: () => R
+): R {
+  const current = monitor();
+  return current ? current.withOwner(owner, action) : action();
+}
+
+export function useRevision(): [number, () => void] {
+  const [revision, setRevision] = React.useState(0);
+  const bump = React.useCallback(() => setRevision((r) => r + 1), []);
+  return [revision, bump];
+}
+
+// the getter is stable so that attaching a monitor only toggles recording, the
+// returned monitor state is meant for effects that record on attach
+export function useMonitorAttachment(): [
+  WbMonitor | undefined,
+  () => WbMonitor | undefined,
+  (monitor: WbMonitor) => () => void
+] {
+  const [monitor, setMonitor] = React.useState<WbMonitor | undefined>();
+  const monitorRef = React.useRef<WbMonitor | undefined>();
+  const attachedRef = React.useRef(0);
+  const getMonitor = React.useCallback(() => monitorRef.current, []);
+  const attach = React.useCallback((next: WbMonitor) => {
+    attachedRef.current++;
+    monitorRef.current = monitorRef.current || next;
+    setMonitor(monitorRef.current);
+    return () => {
+      attachedRef.current--;
+      if (attachedRef.current === 0) {
+        monitorRef.current = undefined;
+        setMonitor(undefined);
+      }
+    };
+  }, []);
+  return [monitor, getMonitor, attach];
+}
+
+export function useWhenConnected(
+  conn: Worterbuch | undefined
+): () => Promise<Worterbuch> {
+  const waitersRef = React.useRef<((conn: Worterbuch) => void)[]>([]);
+
+  React.useEffect(() => {
+    if (conn) {
+      const waiters = waitersRef.current;
+      waitersRef.current = [];
+      waiters.forEach((resolve) => resolve(conn));
+    }
+  }, [conn]);
+
+  return React.useCallback(
+    () =>
+      conn
+        ? Promise.resolve(conn)
+        : new Promise<Worterbuch>((resolve) =>
+            waitersRef.current.push(resolve)
+          ),
+    [conn]
+  );
+}
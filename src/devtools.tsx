@@ -0,0 +1,181 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react";
+import { useWb } from "./context";
+import { TrafficEntry, TrafficKind, createMonitor } from "./monitor";
+
+const TRAFFIC_KINDS: TrafficKind[] = [
+  "set",
+  "publish",
+  "delete",
+  "pDelete",
+  "sPub",
+  "event",
+  "lsEvent",
+];
+
+const styles: { [name: string]: React.CSSProperties } = {
+  panel: {
+    fontFamily: "monospace",
+    fontSize: "12px",
+    background: "#1e1e1e",
+    color: "#d4d4d4",
+    padding: "8px",
+    maxHeight: "50vh",
+    overflow: "auto",
+  },
+  heading: { fontWeight: "bold", margin: "8px 0 4px 0" },
+  table: { borderCollapse: "collapse", width: "100%" },
+  cell: { padding: "0 8px 0 0", verticalAlign: "top", whiteSpace: "nowrap" },
+  toolbar: { display: "flex", gap: "8px", alignItems: "center" },
+};
+
+function time(timestamp: number) {
+  return new Date(timestamp).toISOString().substring(11, 23);
+}
+
+export type WorterbuchDevtoolsProps = {
+  connection?: string;
+  style?: React.CSSProperties;
+};
+
+export function WorterbuchDevtools({
+  connection,
+  style,
+}: WorterbuchDevtoolsProps) {
+  const wb = useWb(connection);
+  const [own] = React.useState(createMonitor);
+  // the provider only records traffic while a panel is attached, and panels
+  // mounted side by side share the monitor that was attached first
+  const [monitor, setMonitor] = React.useState(own);
+  const { attachMonitor, monitor: attached } = wb;
+  const [, setRevision] = React.useState(0);
+  const [paused, setPaused] = React.useState<TrafficEntry[] | undefined>();
+  const [filter, setFilter] = React.useState("");
+  const [kinds, setKinds] = React.useState<TrafficKind[]>(TRAFFIC_KINDS);
+
+  React.useEffect(() => {
+    const detach = attachMonitor(own);
+    setMonitor(attached() || own);
+    return detach;
+  }, [attachMonitor, attached, own]);
+  React.useEffect(
+    () => monitor.subscribe(() => setRevision((r) => r + 1)),
+    [monitor]
+  );
+
+  const traffic = (paused || monitor.traffic()).filter(
+    (entry) => kinds.includes(entry.kind) && entry.key.includes(filter)
+  );
+
+  const toggleKind = (kind: TrafficKind) =>
+    setKinds((kinds) =>
+      kinds.includes(kind) ? kinds.filter((k) => k !== kind) : [...kinds, kind]
+    );
+
+  return (
+    <div style={{ ...styles.panel, ...style }}>
+      <div style={styles.heading}>Connection</div>
+      <div>
+        {wb.state} / {wb.status} {wb.address || ""}
+        {wb.reconnectAttempts > 0
+          ? ` (reconnect attempt ${wb.reconnectAttempts})`
+          : ""}
+      </div>
+      <table style={styles.table}>
+        <tbody>
+          {monitor.history().map((record, i) => (
+            <tr key={i}>
+              <td style={styles.cell}>{time(record.time)}</td>
+              <td style={styles.cell}>{record.state}</td>
+              <td style={styles.cell}>{record.status}</td>
+              <td style={styles.cell}>{record.address || ""}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div style={styles.heading}>Subscriptions</div>
+      <table style={styles.table}>
+        <thead>
+          <tr>
+            <th style={styles.cell}>tid</th>
+            <th style={styles.cell}>kind</th>
+            <th style={styles.cell}>key / pattern</th>
+            <th style={styles.cell}>unique</th>
+            <th style={styles.cell}>liveOnly</th>
+            <th style={styles.cell}>owner</th>
+          </tr>
+        </thead>
+        <tbody>
+          {monitor.subscriptions().map((sub) => (
+            <tr key={sub.transactionId}>
+              <td style={styles.cell}>{sub.transactionId}</td>
+              <td style={styles.cell}>{sub.kind}</td>
+              <td style={styles.cell}>{sub.key}</td>
+              <td style={styles.cell}>{sub.unique ? "yes" : "no"}</td>
+              <td style={styles.cell}>{sub.liveOnly ? "yes" : "no"}</td>
+              <td style={styles.cell}>{sub.owner || "?"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div style={styles.heading}>Traffic</div>
+      <div style={styles.toolbar}>
+        <input
+          placeholder="filter keys"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+        />
+        {TRAFFIC_KINDS.map((kind) => (
+          <label key={kind}>
+            <input
+              type="checkbox"
+              checked={kinds.includes(kind)}
+              onChange={() => toggleKind(kind)}
+            />
+            {kind}
+          </label>
+        ))}
+        <button
+          onClick={() => setPaused(paused ? undefined : monitor.traffic())}
+        >
+          {paused ? "resume" : "pause"}
+        </button>
+        <button onClick={() => monitor.clear()}>clear</button>
+      </div>
+      <table style={styles.table}>
+        <tbody>
+          {traffic
+            .slice()
+            .reverse()
+            .map((entry) => (
+              <tr key={entry.id}>
+                <td style={styles.cell}>{time(entry.time)}</td>
+                <td style={styles.cell}>{entry.kind}</td>
+                <td style={styles.cell}>{entry.key}</td>
+                <td style={{ ...styles.cell, whiteSpace: "normal" }}>
+                  {entry.value === undefined ? "" : JSON.stringify(entry.value)}
+                </td>
+              </tr>
+            ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
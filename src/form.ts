@@ -0,0 +1,290 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key, Value } from "worterbuch-js";
+import React from "react";
+import { useWb } from "./context";
+import { BatchCommit, useBatch } from "./batch";
+import { encodeValue } from "./codec";
+import { usePSubscribe } from "./hooks";
+import { deepEqual, matches } from "./util";
+
+// validators are keyed by field patterns relative to the form's prefix
+export type FieldValidator = (
+  value: Value | undefined,
+  values: Map<string, Value>
+) => string | undefined;
+
+export type WbFormOptions = {
+  validators?: { [field: string]: FieldValidator };
+};
+
+export type WbField<T extends Value> = {
+  key: Key;
+  value: T | undefined;
+  serverValue: T | undefined;
+  onChange: (value: T | undefined) => void;
+  dirty: boolean;
+  // the server value changed after the field was edited locally
+  conflict: boolean;
+  error: string | undefined;
+};
+
+export type WbForm = {
+  values: Map<string, Value>;
+  field: <T extends Value>(name: string) => WbField<T>;
+  dirty: string[];
+  conflicts: string[];
+  errors: Map<string, string>;
+  valid: boolean;
+  submitting: boolean;
+  submit: () => Promise<BatchCommit>;
+  reset: (name?: string) => void;
+  resolve: (name: string, keep: "local" | "remote") => void;
+};
+
+type Edit = {
+  value: Value | undefined;
+  // the server value the edit was based on
+  base: Value | undefined;
+  // written successfully, waiting for the server to echo it back
+  submitted?: boolean;
+};
+
+export function useWbForm(
+  prefix: string,
+  options?: WbFormOptions,
+  connection?: string
+): WbForm {
+  const wb = useWb(connection);
+  const batch = useBatch(connection);
+  const remote = usePSubscribe<Value>(
+    `${prefix}/#`,
+    undefined,
+    undefined,
+    connection
+  );
+  const [edits, setEdits] = React.useState(() => new Map<string, Edit>());
+  const [submitting, setSubmitting] = React.useState(false);
+
+  React.useEffect(() => setEdits(new Map()), [prefix]);
+
+  // values are decoded, so they are compared in their encoded form, which is
+  // what deepEqual can handle
+  const { codecFor } = wb;
+  const same = React.useCallback(
+    (name: string, a: Value | undefined, b: Value | undefined) => {
+      const codec = codecFor(`${prefix}/${name}`);
+      const encode = (value: Value | undefined) =>
+        value === undefined ? undefined : encodeValue(codec, value);
+      return deepEqual(encode(a), encode(b));
+    },
+    [codecFor, prefix]
+  );
+
+  const server = React.useMemo(() => {
+    const values = new Map<string, Value>();
+    remote.forEach((value, key) =>
+      values.set(key.substring(prefix.length + 1), value)
+    );
+    return values;
+  }, [prefix, remote]);
+
+  // edits that the server has caught up with are no longer needed
+  React.useEffect(() => {
+    setEdits((edits) => {
+      let next = edits;
+      edits.forEach((edit, name) => {
+        const current = server.get(name);
+        if (
+          same(name, edit.value, current) ||
+          (edit.submitted && !same(name, edit.base, current))
+        ) {
+          next = next === edits ? new Map(edits) : next;
+          next.delete(name);
+        }
+      });
+      return next;
+    });
+  }, [same, server]);
+
+  const values = React.useMemo(() => {
+    const merged = new Map(server);
+    edits.forEach(({ value }, name) =>
+      value === undefined ? merged.delete(name) : merged.set(name, value)
+    );
+    return merged;
+  }, [edits, server]);
+
+  const validators = options?.validators;
+  const errors = React.useMemo(() => {
+    const errors = new Map<string, string>();
+    if (!validators) {
+      return errors;
+    }
+    const names = new Set(values.keys());
+    Object.keys(validators).forEach((pattern) => {
+      if (!/(^|\/)[?#](\/|$)/.test(pattern)) {
+        names.add(pattern);
+      }
+    });
+    names.forEach((name) => {
+      const pattern = Object.keys(validators).find((p) => matches(p, name));
+      const error =
+        pattern !== undefined
+          ? validators[pattern](values.get(name), values)
+          : undefined;
+      if (error !== undefined) {
+        errors.set(name, error);
+      }
+    });
+    return errors;
+  }, [validators, values]);
+
+  const dirty = React.useMemo(
+    () => [...edits.keys()].filter((name) => !edits.get(name)?.submitted),
+    [edits]
+  );
+  const conflicts = React.useMemo(
+    () =>
+      dirty.filter(
+        (name) => !same(name, edits.get(name)?.base, server.get(name))
+      ),
+    [dirty, edits, same, server]
+  );
+
+  const change = React.useCallback(
+    (name: string, value: Value | undefined) =>
+      setEdits((edits) => {
+        const next = new Map(edits);
+        const previous = edits.get(name);
+        const base =
+          previous && !previous.submitted ? previous.base : server.get(name);
+        if (
+          same(name, value, server.get(name)) &&
+          same(name, base, server.get(name))
+        ) {
+          next.delete(name);
+        } else {
+          next.set(name, { value, base });
+        }
+        return next;
+      }),
+    [same, server]
+  );
+
+  const reset = React.useCallback((name?: string) => {
+    setEdits((edits) => {
+      if (name === undefined) {
+        return new Map();
+      }
+      const next = new Map(edits);
+      next.delete(name);
+      return next;
+    });
+  }, []);
+
+  const resolve = React.useCallback(
+    (name: string, keep: "local" | "remote") => {
+      if (keep === "remote") {
+        reset(name);
+        return;
+      }
+      setEdits((edits) => {
+        const edit = edits.get(name);
+        if (!edit) {
+          return edits;
+        }
+        const next = new Map(edits);
+        next.set(name, { value: edit.value, base: server.get(name) });
+        return next;
+      });
+    },
+    [reset, server]
+  );
+
+  const submit = React.useCallback(async (): Promise<BatchCommit> => {
+    if (errors.size > 0) {
+      const results: BatchCommit["results"] = [];
+      errors.forEach((error, name) =>
+        results.push({
+          op: "set",
+          key: `${prefix}/${name}`,
+          ok: false,
+          error: new Error(error),
+        })
+      );
+      return { ok: false, results, restored: false };
+    }
+    const submitted = new Map(edits);
+    submitted.forEach(({ value }, name) => {
+      const key = `${prefix}/${name}`;
+      if (value === undefined) {
+        batch.delete(key);
+      } else {
+        batch.set(key, encodeValue(wb.codecFor(key), value));
+      }
+    });
+    setSubmitting(true);
+    try {
+      const result = await batch.commit();
+      setEdits((edits) => {
+        const next = new Map(edits);
+        result.results.forEach(({ key, ok }) => {
+          const name = key.substring(prefix.length + 1);
+          const edit = next.get(name);
+          if (ok && edit && edit.value === submitted.get(name)?.value) {
+            next.set(name, {
+              value: edit.value,
+              base: server.get(name),
+              submitted: true,
+            });
+          }
+        });
+        return next;
+      });
+      return result;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [batch, edits, errors, prefix, server, wb]);
+
+  const field = React.useCallback(
+    <T extends Value>(name: string): WbField<T> => ({
+      key: `${prefix}/${name}`,
+      value: values.get(name) as T | undefined,
+      serverValue: server.get(name) as T | undefined,
+      onChange: (value: T | undefined) => change(name, value),
+      dirty: dirty.includes(name),
+      conflict: conflicts.includes(name),
+      error: errors.get(name),
+    }),
+    [change, conflicts, dirty, errors, prefix, server, values]
+  );
+
+  return {
+    values,
+    field,
+    dirty,
+    conflicts,
+    errors,
+    valid: errors.size === 0,
+    submitting,
+    submit,
+    reset,
+    resolve,
+  };
+}
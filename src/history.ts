@@ -0,0 +1,335 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key, RequestPattern, Value, Worterbuch } from "worterbuch-js";
+import React from "react";
+import { useWb } from "./context";
+import { deepEqual } from "./util";
+
+export type Sample<T> = {
+  timestamp: number;
+  value: T;
+};
+
+export type HistoryOptions = {
+  maxSamples?: number;
+  // maximum age of a sample in milliseconds
+  maxAge?: number;
+  // maximum number of samples returned, evenly thinned out from the full history
+  downsample?: number;
+};
+
+export type KeyHistoryOptions<T> = HistoryOptions & {
+  // a key holding an array of samples or the samples themselves
+  seed?: Key | Sample<T>[];
+};
+
+export type PatternHistoryOptions<T> = HistoryOptions & {
+  seed?: (key: Key) => Key | Sample<T>[] | undefined;
+};
+
+export type HistoryControls = {
+  paused: boolean;
+  pause: () => void;
+  resume: () => void;
+  clear: () => void;
+};
+
+export type History<T> = HistoryControls & {
+  samples: Sample<T>[];
+};
+
+export type PatternHistory<T> = HistoryControls & {
+  samples: Map<Key, Sample<T>[]>;
+};
+
+type Series<T> = Map<Key, Sample<T>[]>;
+
+type Recorder<T> = (key: Key, value: T | undefined) => void;
+
+function isSample(sample: unknown): boolean {
+  return (
+    typeof sample === "object" &&
+    sample !== null &&
+    typeof (sample as { timestamp: unknown }).timestamp === "number"
+  );
+}
+
+function loadSeed<T>(
+  conn: Worterbuch,
+  seed: Key | Sample<T>[] | undefined
+): Promise<Sample<T>[]> {
+  if (seed === undefined) {
+    return Promise.resolve([]);
+  }
+  if (typeof seed !== "string") {
+    return Promise.resolve(seed);
+  }
+  return conn
+    .get(seed)
+    .then(
+      (stored) =>
+        (Array.isArray(stored) ? stored.filter(isSample) : []) as Sample<T>[]
+    );
+}
+
+function prune<T>(
+  samples: Sample<T>[],
+  { maxSamples, maxAge }: HistoryOptions,
+  now: number
+): Sample<T>[] {
+  let pruned = samples;
+  if (maxAge !== undefined) {
+    const oldest = now - maxAge;
+    const first = pruned.findIndex((s) => s.timestamp >= oldest);
+    pruned = first < 0 ? [] : first > 0 ? pruned.slice(first) : pruned;
+  }
+  if (maxSamples !== undefined && pruned.length > maxSamples) {
+    pruned = pruned.slice(pruned.length - maxSamples);
+  }
+  return pruned;
+}
+
+function downsample<T>(samples: Sample<T>[], target?: number): Sample<T>[] {
+  if (target === undefined || target < 1 || samples.length <= target) {
+    return samples;
+  }
+  const step = samples.length / target;
+  const thinned: Sample<T>[] = [];
+  for (let i = 1; i <= target; i++) {
+    // the last sample of each bucket, so the latest value is always included
+    thinned.push(samples[Math.ceil(i * step) - 1]);
+  }
+  return thinned;
+}
+
+function useHistory<T extends Value>(
+  options: HistoryOptions,
+  id: string,
+  open: (
+    conn: Worterbuch,
+    record: Recorder<T>,
+    seed: (key: Key, samples: Sample<T>[]) => void
+  ) => () => void,
+  connection?: string
+): [Series<T>, HistoryControls] {
+  const wb = useWb(connection);
+  const { maxSamples, maxAge, downsample: target } = options;
+  const seriesRef = React.useRef<Series<T>>(new Map());
+  const [series, setSeries] = React.useState<Series<T>>(() => new Map());
+  const [paused, setPaused] = React.useState(false);
+  const pausedRef = React.useRef(paused);
+  pausedRef.current = paused;
+  const openRef = React.useRef(open);
+  openRef.current = open;
+
+  const limitsRef = React.useRef({ maxSamples, maxAge });
+  limitsRef.current = { maxSamples, maxAge };
+
+  const publish = React.useCallback(() => {
+    const now = Date.now();
+    const pruned: Series<T> = new Map();
+    seriesRef.current.forEach((samples, key) => {
+      const kept = prune(samples, limitsRef.current, now);
+      if (kept.length > 0) {
+        pruned.set(key, kept);
+      }
+    });
+    seriesRef.current = pruned;
+    if (!pausedRef.current) {
+      setSeries(pruned);
+    }
+  }, []);
+
+  const idRef = React.useRef(id);
+
+  React.useEffect(() => {
+    // the history survives reconnects, but not a change of key or pattern
+    if (idRef.current !== id) {
+      idRef.current = id;
+      seriesRef.current = new Map();
+      publish();
+    }
+    const conn = wb.connection;
+    if (!conn) {
+      return;
+    }
+    return openRef.current(
+      conn,
+      (key, value) => {
+        const samples = seriesRef.current.get(key) || [];
+        const last = samples[samples.length - 1];
+        // a reconnect delivers the current value again, which is not a new
+        // sample
+        if (value === undefined || (last && deepEqual(last.value, value))) {
+          return;
+        }
+        seriesRef.current.set(key, [
+          ...samples,
+          { timestamp: Date.now(), value },
+        ]);
+        publish();
+      },
+      (key, seeded) => {
+        const samples = seriesRef.current.get(key) || [];
+        const known = new Set(samples.map((s) => s.timestamp));
+        seriesRef.current.set(
+          key,
+          [...seeded.filter((s) => !known.has(s.timestamp)), ...samples].sort(
+            (a, b) => a.timestamp - b.timestamp
+          )
+        );
+        publish();
+      }
+    );
+  }, [id, publish, wb.connection]);
+
+  // samples expire even if no new ones arrive
+  React.useEffect(() => {
+    if (maxAge === undefined || series.size === 0) {
+      return;
+    }
+    let oldest = Infinity;
+    series.forEach((samples) => {
+      oldest = Math.min(oldest, samples[0].timestamp);
+    });
+    const timeout = setTimeout(
+      publish,
+      Math.max(0, oldest + maxAge - Date.now())
+    );
+    return () => clearTimeout(timeout);
+  }, [maxAge, publish, series]);
+
+  React.useEffect(publish, [maxAge, maxSamples, publish]);
+
+  const controls = React.useMemo(
+    () => ({
+      paused,
+      pause: () => setPaused(true),
+      resume: () => {
+        pausedRef.current = false;
+        setPaused(false);
+        publish();
+      },
+      clear: () => {
+        seriesRef.current = new Map();
+        setSeries(new Map());
+      },
+    }),
+    [paused, publish]
+  );
+
+  const displayed = React.useMemo(() => {
+    if (target === undefined) {
+      return series;
+    }
+    const thinned: Series<T> = new Map();
+    series.forEach((samples, key) =>
+      thinned.set(key, downsample(samples, target))
+    );
+    return thinned;
+  }, [series, target]);
+
+  return [displayed, controls];
+}
+
+const NO_SAMPLES: Sample<never>[] = [];
+
+export function useSubscribeHistory<T extends Value>(
+  key: Key,
+  options?: KeyHistoryOptions<T>,
+  connection?: string
+): History<T> {
+  const wb = useWb(connection);
+  const seed = options?.seed;
+  const [series, controls] = useHistory<T>(
+    options || {},
+    key,
+    (conn, record, seeded) => {
+      let closed = false;
+      loadSeed(conn, seed)
+        .then((samples) => {
+          if (!closed && samples.length > 0) {
+            seeded(key, samples);
+          }
+        })
+        .catch(() => undefined);
+      const unsubscribe = wb.subscriptions.subscribe<T>(
+        conn,
+        key,
+        undefined,
+        undefined,
+        (value) => record(key, value)
+      );
+      return () => {
+        closed = true;
+        unsubscribe();
+      };
+    },
+    connection
+  );
+  return { ...controls, samples: series.get(key) || NO_SAMPLES };
+}
+
+export function usePSubscribeHistory<T extends Value>(
+  pattern: RequestPattern,
+  options?: PatternHistoryOptions<T>,
+  connection?: string
+): PatternHistory<T> {
+  const wb = useWb(connection);
+  const seed = options?.seed;
+  const [series, controls] = useHistory<T>(
+    options || {},
+    pattern,
+    (conn, record, seeded) => {
+      let closed = false;
+      let previous = new Map<Key, T>();
+      // the shared subscription reports all matches, values that were not
+      // written since the last update are carried over unchanged
+      const unsubscribe = wb.subscriptions.pSubscribe<T>(
+        conn,
+        pattern,
+        undefined,
+        undefined,
+        (values) => {
+          const known = previous;
+          previous = values;
+          values.forEach((value, key) => {
+            if (known.get(key) === value) {
+              return;
+            }
+            if (seed && !known.has(key)) {
+              loadSeed(conn, seed(key))
+                .then((samples) => {
+                  if (!closed && samples.length > 0) {
+                    seeded(key, samples);
+                  }
+                })
+                .catch(() => undefined);
+            }
+            record(key, value);
+          });
+        }
+      );
+      return () => {
+        closed = true;
+        unsubscribe();
+      };
+    },
+    connection
+  );
+  return { ...controls, samples: series };
+}
@@ -0,0 +1,266 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key, TransactionID, Value } from "worterbuch-js";
+import React from "react";
+import { useOwnerRef, useWb, withOwner } from "./context";
+import { WriteOptions } from "./optimistic";
+import { toError } from "./result";
+import { matches } from "./util";
+import {
+  Codec,
+  decodeValue,
+  decodeValues,
+  encodeValue,
+  useCodecFor,
+} from "./codec";
+
+export function useSubscribe<T = Value>(
+  key: string,
+  initialValue?: T,
+  unique?: boolean,
+  liveOnly?: boolean,
+  connection?: string,
+  codec?: Codec<T>
+): T | undefined {
+  const wb = useWb(connection);
+  const ownerRef = useOwnerRef(wb);
+  const codecFor = useCodecFor(wb.codecFor, codec);
+  const [value, setValue] = React.useState<T | undefined>(
+    () =>
+      initialValue ??
+      decodeValue<T>(codecFor(key), wb.snapshot.get(key), wb.logger)
+  );
+  React.useEffect(() => {
+    const conn = wb.connection;
+    const decode = (value: Value | undefined) =>
+      setValue(decodeValue<T>(codecFor(key), value, wb.logger));
+    if (conn) {
+      return withOwner(wb.monitor, ownerRef.current, () =>
+        wb.subscriptions.subscribe(conn, key, unique, liveOnly, decode)
+      );
+    } else {
+      decode(wb.snapshot.get(key));
+    }
+  }, [
+    codecFor,
+    key,
+    liveOnly,
+    ownerRef,
+    unique,
+    wb.connection,
+    wb.logger,
+    wb.monitor,
+    wb.snapshot,
+    wb.subscriptions,
+  ]);
+  return value;
+}
+
+type PSubState<T> = {
+  values: Map<Key, T>;
+  pattern: string;
+};
+
+export function usePSubscribe<T = Value>(
+  pattern: string,
+  unique?: boolean,
+  liveOnly?: boolean,
+  connection?: string,
+  codec?: Codec<T>
+) {
+  const wb = useWb(connection);
+  const ownerRef = useOwnerRef(wb);
+  const codecFor = useCodecFor(wb.codecFor, codec);
+  const [state, setState] = React.useState<PSubState<T>>(() => ({
+    values: decodeValues<T>(
+      codecFor,
+      snapshotMatches(wb.snapshot, pattern),
+      wb.logger
+    ),
+    pattern,
+  }));
+  React.useEffect(() => {
+    const conn = wb.connection;
+    if (conn) {
+      return withOwner(wb.monitor, ownerRef.current, () =>
+        wb.subscriptions.pSubscribe(conn, pattern, unique, liveOnly, (values) =>
+          setState({
+            values: decodeValues<T>(codecFor, values, wb.logger),
+            pattern,
+          })
+        )
+      );
+    }
+  }, [
+    codecFor,
+    pattern,
+    liveOnly,
+    ownerRef,
+    unique,
+    wb.connection,
+    wb.logger,
+    wb.monitor,
+    wb.subscriptions,
+  ]);
+  return state.pattern === pattern ? state.values : new Map<Key, T>();
+}
+
+function snapshotMatches(
+  snapshot: Map<string, Value>,
+  pattern: string
+): Map<Key, Value> {
+  const values = new Map<Key, Value>();
+  snapshot.forEach((value, key) => {
+    if (matches(pattern, key)) {
+      values.set(key, value);
+    }
+  });
+  return values;
+}
+
+export type SetOptions<T = Value> = WriteOptions<T>;
+
+export function useSetLater<T = Value>(
+  options?: SetOptions<T>,
+  connection?: string,
+  codec?: Codec<T>
+) {
+  const wb = useWb(connection);
+  const onError = options?.onError;
+  const codecFor = useCodecFor(wb.codecFor, codec);
+  return React.useCallback(
+    (key: string, value: T) => {
+      const encoded = encodeValue(codecFor(key), value);
+      const write = wb.connection?.set(key, encoded);
+      if (!write) {
+        wb.outbox?.enqueue({ op: "set", key, value: encoded });
+        return write;
+      }
+      wb.pendingWrites.track(key, write);
+      return onError ? write.catch((e) => onError(toError(e), value)) : write;
+    },
+    [codecFor, onError, wb.connection, wb.outbox, wb.pendingWrites]
+  );
+}
+
+export function useSet<T = Value>(
+  key: string,
+  options?: SetOptions<T>,
+  connection?: string,
+  codec?: Codec<T>
+) {
+  const setLater = useSetLater<T>(options, connection, codec);
+  return React.useCallback((value: T) => setLater(key, value), [setLater, key]);
+}
+
+export function usePublishLater<T extends Value>(connection?: string) {
+  const wb = useWb(connection);
+  return React.useCallback(
+    (key: string, value: T) => {
+      if (!wb.connection) {
+        wb.outbox?.enqueue({ op: "publish", key, value });
+      }
+      return wb.connection?.publish<T>(key, value);
+    },
+    [wb.connection, wb.outbox]
+  );
+}
+
+export function usePublish<T extends Value>(key: string, connection?: string) {
+  const publishLater = usePublishLater<T>(connection);
+  return React.useCallback(
+    (value: T) => publishLater(key, value),
+    [publishLater, key]
+  );
+}
+
+export type PublishStreamPolicy = "buffer" | "latest" | "drop";
+
+export type PublishStreamOptions = {
+  // what to do with values published before the stream is ready
+  policy?: PublishStreamPolicy;
+  // maximum number of values kept with the "buffer" policy
+  maxBuffer?: number;
+};
+
+export function usePublishStream<T extends Value>(
+  key: string,
+  options?: PublishStreamOptions,
+  connection?: string
+): (value: T) => void {
+  const wb = useWb(connection);
+  const policy = options?.policy || "latest";
+  const maxBuffer = Math.max(1, options?.maxBuffer ?? 1000);
+  const tidRef = React.useRef<TransactionID | undefined>();
+  const bufferRef = React.useRef<T[]>([]);
+  const policyRef = React.useRef({ policy, maxBuffer });
+  policyRef.current = { policy, maxBuffer };
+
+  React.useEffect(() => {
+    const conn = wb.connection;
+    if (!conn) {
+      return;
+    }
+    let closed = false;
+    conn
+      .sPubInit(key)
+      .then((tid) => {
+        if (closed) {
+          return;
+        }
+        tidRef.current = tid;
+        const buffered = bufferRef.current;
+        bufferRef.current = [];
+        buffered.forEach((value) => conn.sPub(tid, value));
+      })
+      .catch((e) => {
+        wb.logger.error(`Could not open publish stream for ${key}:`, e);
+      });
+    return () => {
+      closed = true;
+      tidRef.current = undefined;
+    };
+  }, [key, wb.connection, wb.logger]);
+
+  React.useEffect(
+    () => () => {
+      bufferRef.current = [];
+    },
+    [key]
+  );
+
+  return React.useCallback(
+    (value: T) => {
+      const tid = tidRef.current;
+      if (tid !== undefined && wb.connection) {
+        wb.connection.sPub(tid, value);
+        return;
+      }
+      const { policy, maxBuffer } = policyRef.current;
+      if (policy === "latest") {
+        bufferRef.current = [value];
+      } else if (policy === "buffer") {
+        const buffer = bufferRef.current;
+        bufferRef.current = [
+          ...buffer.slice(Math.max(0, buffer.length - maxBuffer + 1)),
+          value,
+        ];
+      }
+    },
+    [wb.connection]
+  );
+}
@@ -17,63 +17,281 @@
 /* eslint-disable react-refresh/only-export-components */
 
 import {
-  connect as wbconnect,
   Worterbuch,
-  Key,
   KeyValuePairs,
   Children,
   Value,
   KeyValuePair,
-  PStateEvent,
   RequestPattern,
-  TransactionID,
 } from "worterbuch-js";
 import React from "react";
+import {
+  ConnectionState,
+  ConnectionStatus,
+  WB,
+  WbContext,
+  WbRegistryContext,
+  useMonitorAttachment,
+  useOwnerRef,
+  useRegistry,
+  useRevision,
+  useWb,
+  useWhenConnected,
+  withOwner,
+} from "./context";
+import { createPendingWrites } from "./pending";
+import { createSubscriptionManager } from "./subscriptions";
+import { OutboxOptions, QueuedWrite, createOutbox } from "./outbox";
+import { useIsPending } from "./optimistic";
+import { toError } from "./result";
+import { deepEqual } from "./util";
+import { observeConnection } from "./observe";
+import { LogLevel, Logger, createLogger, useLatestLogger } from "./logger";
+import {
+  ServerSelection,
+  ServerSelectionOptions,
+  createServerSelection,
+} from "./selection";
+import {
+  AuthToken,
+  connectAuthorized,
+  isAuthFailure,
+  resolveAuthToken,
+} from "./auth";
+import {
+  Codec,
+  CodecRegistry,
+  decodeValue,
+  encodeValue,
+  useCodecFor,
+  useCodecRegistry,
+} from "./codec";
+import {
+  Leader,
+  SharedConnectionOptions,
+  Follower,
+  createFollower,
+  createLeader,
+  defaultChannel,
+  sharingSupported,
+  useLeaderElection,
+} from "./shared";
+import { SetOptions } from "./hooks";
 
 export { Value, ValueObject, Children } from "worterbuch-js";
+export { ConnectionState, ConnectionStatus } from "./context";
+export {
+  SetOptions,
+  PublishStreamPolicy,
+  PublishStreamOptions,
+  useSubscribe,
+  usePSubscribe,
+  useSetLater,
+  useSet,
+  usePublishLater,
+  usePublish,
+  usePublishStream,
+} from "./hooks";
+export {
+  MockWorterbuch,
+  MockWorterbuchProps,
+  MockWorterbuchStore,
+  MockWorterbuchOptions,
+  MockWrite,
+  createMockWorterbuch,
+} from "./mock";
+export {
+  ResultStatus,
+  WbResult,
+  useGetOnceResult,
+  usePGetOnceResult,
+  useLsOnceResult,
+  useSubscribeResult,
+} from "./result";
+export { WriteOptions, useIsPending, useOptimisticSet } from "./optimistic";
+export {
+  QueuedWrite,
+  OutboxStorage,
+  OutboxOptions,
+  localStorageOutbox,
+  indexedDbOutbox,
+} from "./outbox";
+export {
+  SchemaKey,
+  SchemaPattern,
+  SchemaValue,
+  SchemaValidators,
+  SchemaViolation,
+  WorterbuchHooksOptions,
+  createWorterbuchHooks,
+} from "./schema";
+export {
+  WbTreeNode,
+  PatternCapture,
+  useSubscribeTree,
+  usePSubscribeCaptures,
+} from "./tree";
+export {
+  TrafficKind,
+  TrafficEntry,
+  ConnectionRecord,
+  SubscriptionRecord,
+} from "./monitor";
+export { WorterbuchDevtools, WorterbuchDevtoolsProps } from "./devtools";
+export {
+  useSuspenseGet,
+  useSuspensePGet,
+  useSuspenseSubscribe,
+  useInvalidateSuspenseCache,
+} from "./suspense";
+export {
+  RateLimited,
+  useThrottled,
+  useDebounced,
+  useCoalesced,
+  useThrottledSet,
+  useDebouncedSet,
+  useCoalescedSet,
+  useThrottledPublish,
+  useDebouncedPublish,
+  useCoalescedPublish,
+  useCoalescedPublishStream,
+} from "./ratelimit";
+export {
+  Batch,
+  BatchCommit,
+  BatchOperation,
+  BatchOptions,
+  BatchResult,
+  useBatch,
+} from "./batch";
+export {
+  FieldValidator,
+  WbField,
+  WbForm,
+  WbFormOptions,
+  useWbForm,
+} from "./form";
+export { WbSelectorInputs, WbSelectorInput, useWbSelector } from "./selector";
+export {
+  Sample,
+  HistoryOptions,
+  KeyHistoryOptions,
+  PatternHistoryOptions,
+  HistoryControls,
+  History,
+  PatternHistory,
+  useSubscribeHistory,
+  usePSubscribeHistory,
+} from "./history";
+export { KeyTree, KeyTreeNode, KeyTreeOptions, useKeyTree } from "./keytree";
+export { KeyTreeBrowser, KeyTreeBrowserProps } from "./keytreebrowser";
+export { PresenceOptions, PresenceEntry, usePresence } from "./presence";
+export {
+  SharedConnectionOptions,
+  TabRole,
+  sharingSupported,
+  useLeaderElection,
+} from "./shared";
+export { LogLevel, Logger, consoleLogger, createLogger } from "./logger";
+export {
+  Codec,
+  CodecRegistry,
+  dateCodec,
+  bigIntCodec,
+  base64Codec,
+  mapCodec,
+  setCodec,
+} from "./codec";
+export {
+  ServerSelection,
+  ServerSelectionOptions,
+  ServerSelectionStorage,
+  ServerSelectionContext,
+  ServerSelector,
+  localStorageSelection,
+  memorySelectionStorage,
+} from "./selection";
+export {
+  AuthToken,
+  AuthTokenProvider,
+  AuthFailedError,
+  isAuthFailure,
+} from "./auth";
 
-export enum ConnectionState {
-  NoServerSelected = "NO_SERVER_SELECTED",
-  Connecting = "CONNECTING",
-  CouldNotConnect = "COULD_NOT_CONNECT",
-  Connected = "CONNECTED",
-  Disconnected = "DISCONNECTED",
-}
+export type Config = {
+  backendScheme: string;
+  backendAddress: [string, number?][];
+  backendPath: string;
+  backendAuthToken?: AuthToken;
+};
 
-export enum ConnectionStatus {
-  Warning = "WARNING",
-  Error = "ERROR",
-  Ok = "OK",
-}
+export type ReconnectPolicy = {
+  // delay before the first reconnect attempt in milliseconds
+  initialDelay?: number;
+  // factor by which the delay grows with every failed attempt
+  multiplier?: number;
+  // upper bound for the delay in milliseconds
+  maxDelay?: number;
+  // fraction of the delay (0 - 1) that is randomly added or subtracted
+  jitter?: number;
+  // number of consecutive attempts after which reconnecting is given up
+  maxAttempts?: number;
+};
 
-const WbContext = React.createContext<WB>({
-  connection: undefined,
-  address: undefined,
-  state: ConnectionState.Disconnected,
-  status: ConnectionStatus.Error,
-  publishStreams: new Map(),
-});
+export type DisconnectReason = {
+  // true if the connection was closed by this client, e.g. on unmount
+  intentional: boolean;
+  code?: number;
+  reason?: string;
+};
 
-type WB = {
-  connection: Worterbuch | undefined;
-  address: string | undefined;
-  state: ConnectionState;
-  status: ConnectionStatus;
-  publishStreams: Map<string, TransactionID>;
+export type ConnectionEvents = {
+  onConnect?: (address: string | undefined) => void;
+  onDisconnect?: (reason: DisconnectReason) => void;
+  onConnectError?: (error: unknown) => void;
+  onReconnectScheduled?: (delay: number) => void;
 };
 
-export type Config = {
-  backendScheme: string;
-  backendAddress: [string, number?][];
-  backendPath: string;
-  backendAuthToken?: string;
+const DEFAULT_RECONNECT_POLICY: Required<ReconnectPolicy> = {
+  initialDelay: 3000,
+  multiplier: 2,
+  maxDelay: 60000,
+  jitter: 0.2,
+  maxAttempts: Infinity,
 };
 
+function reconnectDelay(
+  policy: Required<ReconnectPolicy>,
+  attempt: number
+): number {
+  const base = Math.min(
+    policy.initialDelay * Math.pow(policy.multiplier, attempt - 1),
+    policy.maxDelay
+  );
+  const jitter = Math.max(0, Math.min(1, policy.jitter));
+  const offset = base * jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(base + offset));
+}
+
 function useWorterbuch(
   config: Config,
   automaticReconnect: boolean,
-  clientName: string | undefined
+  clientName: string | undefined,
+  reconnectPolicy: ReconnectPolicy | undefined,
+  outboxOptions: boolean | OutboxOptions | undefined,
+  initialSnapshot: KeyValuePairs<Value> | undefined,
+  log: Logger,
+  events: ConnectionEvents,
+  serverSelection: ServerSelection | ServerSelectionOptions | undefined,
+  codecs: CodecRegistry | undefined,
+  shareConnection: boolean | SharedConnectionOptions | undefined
 ): WB {
+  const codecFor = useCodecRegistry(codecs);
+  const logger = useLatestLogger(log);
+  const eventsRef = React.useRef(events);
+  eventsRef.current = events;
+
   const [conn, setConn] = React.useState<undefined | Worterbuch>();
   const [attempt, setAttempt] = React.useState(0);
   const [{ state, status }, setStatusSummary] = React.useState<{
@@ -83,8 +301,19 @@ function useWorterbuch(
     state: ConnectionState.Disconnected,
     status: ConnectionStatus.Error,
   });
+  const [nextReconnect, setNextReconnect] = React.useState<
+    number | undefined
+  >();
+  const [reconnectAttempts, setReconnectAttempts] = React.useState(0);
+  const [selectedAddress, setSelectedAddress] = React.useState<
+    string | undefined
+  >();
 
   const pubSRef = React.useRef(new Map());
+  const reconnectAttemptsRef = React.useRef(0);
+  const reconnectTimerRef = React.useRef<
+    ReturnType<typeof setTimeout> | undefined
+  >();
 
   const address = React.useMemo(
     () =>
@@ -94,78 +323,397 @@ function useWorterbuch(
       ),
     [config.backendAddress, config.backendPath, config.backendScheme]
   );
-  const authtoken = config.backendAuthToken;
+  // token providers are called on every connect, only a static token
+  // restarts the connection when it changes
+  const authTokenRef = React.useRef(config.backendAuthToken);
+  authTokenRef.current = config.backendAuthToken;
+  const staticAuthToken =
+    typeof config.backendAuthToken === "string"
+      ? config.backendAuthToken
+      : undefined;
+
+  const sharing =
+    typeof shareConnection === "object"
+      ? shareConnection
+      : shareConnection
+      ? {}
+      : undefined;
+  const channelName =
+    sharing && sharingSupported()
+      ? sharing.channel || defaultChannel(address, staticAuthToken, clientName)
+      : undefined;
+  // followers use the connection of the leader tab instead of opening one
+  const follower = useLeaderElection(channelName) === "follower";
+  const followerRef = React.useRef<Follower | undefined>();
+
+  const { strategy, storage, scope, probeTimeout }: ServerSelectionOptions =
+    typeof serverSelection === "object"
+      ? serverSelection
+      : { strategy: serverSelection };
+  const selection = React.useMemo(
+    () => createServerSelection({ strategy, storage, scope, probeTimeout }),
+    [probeTimeout, scope, storage, strategy]
+  );
+
+  // the selection is read when connecting, changing it must not reconnect
+  const selectionRef = React.useRef(selection);
+  selectionRef.current = selection;
+
+  const { initialDelay, multiplier, maxDelay, jitter, maxAttempts } =
+    reconnectPolicy || {};
+  const policy = React.useMemo(
+    () => ({
+      initialDelay: initialDelay ?? DEFAULT_RECONNECT_POLICY.initialDelay,
+      multiplier: multiplier ?? DEFAULT_RECONNECT_POLICY.multiplier,
+      maxDelay: maxDelay ?? DEFAULT_RECONNECT_POLICY.maxDelay,
+      jitter: jitter ?? DEFAULT_RECONNECT_POLICY.jitter,
+      maxAttempts: maxAttempts ?? DEFAULT_RECONNECT_POLICY.maxAttempts,
+    }),
+    [initialDelay, jitter, maxAttempts, maxDelay, multiplier]
+  );
+
+  const cancelReconnect = React.useCallback(() => {
+    if (reconnectTimerRef.current !== undefined) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = undefined;
+    }
+    setNextReconnect(undefined);
+  }, []);
 
   const attemptReconnect = React.useCallback(() => {
-    if (automaticReconnect) {
-      console.log(`Trying to reconnect in 3 seconds …`);
-      setTimeout(() => setAttempt(attempt + 1), 3000);
+    if (!automaticReconnect) {
+      return;
     }
-  }, [attempt, automaticReconnect]);
+    const nextAttempt = reconnectAttemptsRef.current + 1;
+    if (nextAttempt > policy.maxAttempts) {
+      logger.error(`Giving up after ${policy.maxAttempts} reconnect attempts.`);
+      cancelReconnect();
+      return;
+    }
+    reconnectAttemptsRef.current = nextAttempt;
+    setReconnectAttempts(nextAttempt);
+    const delay = reconnectDelay(policy, nextAttempt);
+    logger.info(
+      `Trying to reconnect in ${(delay / 1000).toFixed(1)} seconds …`
+    );
+    eventsRef.current.onReconnectScheduled?.(delay);
+    cancelReconnect();
+    setNextReconnect(Date.now() + delay);
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = undefined;
+      setNextReconnect(undefined);
+      setAttempt((a) => a + 1);
+    }, delay);
+  }, [automaticReconnect, cancelReconnect, logger, policy]);
+
+  // the connection effect must not restart when the policy changes, so it
+  // always calls the latest version of attemptReconnect through this ref
+  const attemptReconnectRef = React.useRef(attemptReconnect);
+  attemptReconnectRef.current = attemptReconnect;
+
+  const reconnect = React.useCallback(() => {
+    if (followerRef.current) {
+      followerRef.current.control("reconnect");
+      return;
+    }
+    if (conn) {
+      return;
+    }
+    cancelReconnect();
+    reconnectAttemptsRef.current = 0;
+    setReconnectAttempts(0);
+    setAttempt((a) => a + 1);
+  }, [cancelReconnect, conn]);
+
+  // worterbuch does not support re-authorizing an open connection, so the
+  // connection is replaced with one that uses a freshly obtained token
+  const rotateAuthToken = React.useCallback(() => {
+    if (followerRef.current) {
+      followerRef.current.control("rotateAuthToken");
+      return;
+    }
+    cancelReconnect();
+    reconnectAttemptsRef.current = 0;
+    setReconnectAttempts(0);
+    setAttempt((a) => a + 1);
+  }, [cancelReconnect]);
 
   React.useEffect(() => {
-    if (!conn && address && (attempt === 0 || automaticReconnect)) {
-      const addrs = sortAddresses([...address]);
-      console.log("Connecting to worterbuch server at", addrs);
+    if (follower) {
+      return;
+    }
+
+    let closed = false;
+    let connection: Worterbuch | undefined;
+
+    const selection = selectionRef.current;
+    setSelectedAddress(undefined);
+    if (address.length === 0) {
+      logger.warn("No worterbuch server configured.");
       setStatusSummary({
-        state: ConnectionState.Connecting,
-        status: ConnectionStatus.Warning,
+        state: ConnectionState.NoServerSelected,
+        status: ConnectionStatus.Error,
       });
-      pubSRef.current.clear();
-      wbconnect(addrs, authtoken)
-        .then((conn) => {
-          storeConnectedAddress(conn.serverAddress);
-          conn.onclose = () => {
-            console.error("Connection to worterbuch closed.");
-            setConn(undefined);
-            setStatusSummary({
-              state: ConnectionState.Disconnected,
-              status: ConnectionStatus.Error,
-            });
-            attemptReconnect();
-          };
-          setConn(conn);
+      return;
+    }
+
+    setStatusSummary({
+      state: ConnectionState.Connecting,
+      status: ConnectionStatus.Warning,
+    });
+    pubSRef.current.clear();
+    selection
+      .select(address)
+      .then((addrs) => {
+        if (closed) {
+          return undefined;
+        }
+        if (addrs.length === 0) {
+          logger.warn("No worterbuch server selected.");
           setStatusSummary({
-            state: ConnectionState.Connected,
-            status: ConnectionStatus.Ok,
+            state: ConnectionState.NoServerSelected,
+            status: ConnectionStatus.Error,
           });
-        })
-        .catch((e) => {
-          console.error("Could not connect to server:", e);
+          return undefined;
+        }
+        setSelectedAddress(addrs[0]);
+        return resolveAuthToken(authTokenRef.current).then((token) => {
+          if (closed) {
+            return undefined;
+          }
+          logger.info("Connecting to worterbuch server at", addrs);
+          return connectAuthorized(addrs, token, logger);
+        });
+      })
+      .then((conn) => {
+        if (!conn) {
+          return;
+        }
+        if (closed) {
+          conn.close();
+          return;
+        }
+        connection = conn;
+        setSelectedAddress(conn.serverAddress);
+        selection.connected(address, conn.serverAddress);
+        reconnectAttemptsRef.current = 0;
+        setReconnectAttempts(0);
+        conn.onclose = (e) => {
+          if (closed) {
+            return;
+          }
+          logger.error("Connection to worterbuch closed.");
+          eventsRef.current.onDisconnect?.({
+            intentional: false,
+            code: e?.code,
+            reason: e?.reason,
+          });
+          connection = undefined;
+          setConn(undefined);
           setStatusSummary({
-            state: ConnectionState.CouldNotConnect,
+            state: ConnectionState.Disconnected,
             status: ConnectionStatus.Error,
           });
-          attemptReconnect();
+          attemptReconnectRef.current();
+        };
+        setConn(conn);
+        setStatusSummary({
+          state: ConnectionState.Connected,
+          status: ConnectionStatus.Ok,
         });
-    }
+        eventsRef.current.onConnect?.(conn.serverAddress);
+      })
+      .catch((e) => {
+        if (closed) {
+          return;
+        }
+        logger.error("Could not connect to server:", e);
+        eventsRef.current.onConnectError?.(e);
+        if (isAuthFailure(e)) {
+          // retrying with the same credentials would fail again
+          cancelReconnect();
+          setStatusSummary({
+            state: ConnectionState.AuthFailed,
+            status: ConnectionStatus.Error,
+          });
+          return;
+        }
+        setStatusSummary({
+          state: ConnectionState.CouldNotConnect,
+          status: ConnectionStatus.Error,
+        });
+        attemptReconnectRef.current();
+      });
 
     return () => {
-      if (conn) {
-        console.log("Closing worterbuch connection.");
+      closed = true;
+      if (connection) {
+        logger.info("Closing worterbuch connection.");
         setStatusSummary({
           state: ConnectionState.Disconnected,
           status: ConnectionStatus.Error,
         });
-        conn.close();
+        connection.close();
         setConn(undefined);
+        eventsRef.current.onDisconnect?.({ intentional: true });
+      }
+    };
+  }, [address, attempt, cancelReconnect, follower, logger, staticAuthToken]);
+
+  React.useEffect(() => cancelReconnect, [cancelReconnect]);
+
+  React.useEffect(() => {
+    if (!channelName || !follower) {
+      return;
+    }
+
+    let connected = false;
+    setStatusSummary({
+      state: ConnectionState.Connecting,
+      status: ConnectionStatus.Warning,
+    });
+    const shared = createFollower(channelName, (conn, summary) => {
+      setConn(conn);
+      setStatusSummary({ state: summary.state, status: summary.status });
+      setSelectedAddress(summary.address);
+      if (conn && !connected) {
+        eventsRef.current.onConnect?.(summary.address);
+      } else if (!conn && connected) {
+        eventsRef.current.onDisconnect?.({ intentional: false });
       }
+      connected = conn !== undefined;
+    });
+    followerRef.current = shared;
+
+    return () => {
+      followerRef.current = undefined;
+      shared.close();
+      setConn(undefined);
+      setStatusSummary({
+        state: ConnectionState.Disconnected,
+        status: ConnectionStatus.Error,
+      });
     };
-  }, [address, attempt, attemptReconnect, authtoken, automaticReconnect, conn]);
+  }, [channelName, follower]);
+
+  const [leader, setLeader] = React.useState<Leader | undefined>();
+  const controlRef = React.useRef({ reconnect, rotateAuthToken });
+  controlRef.current = { reconnect, rotateAuthToken };
 
   React.useEffect(() => {
-    if (conn && clientName) {
+    if (!channelName || follower) {
+      return;
+    }
+    const leader = createLeader(channelName, (action) =>
+      controlRef.current[action]()
+    );
+    setLeader(leader);
+    return () => {
+      leader.close();
+      setLeader(undefined);
+    };
+  }, [channelName, follower]);
+
+  React.useEffect(() => {
+    leader?.update(conn, {
+      state,
+      status,
+      address: conn?.serverAddress,
+      clientId: conn?.clientId(),
+    });
+  }, [conn, leader, state, status]);
+
+  React.useEffect(() => {
+    // the client name of a shared connection is set by the leader tab
+    if (conn && clientName && !follower) {
       conn.setClientName(clientName);
     }
-  }, [conn, clientName]);
-
-  return {
-    connection: conn,
-    address: conn?.serverAddress,
-    state,
-    status,
-    publishStreams: pubSRef.current,
-  };
+  }, [conn, clientName, follower]);
+
+  const whenConnected = useWhenConnected(conn);
+  const [pendingWrites] = React.useState(createPendingWrites);
+  const [subscriptions] = React.useState(() =>
+    createSubscriptionManager(logger)
+  );
+  const [monitor, getMonitor, attachMonitor] = useMonitorAttachment();
+  const [willRevision, reviseWill] = useRevision();
+  const connection = React.useMemo(
+    () => conn && observeConnection(conn, getMonitor),
+    [conn, getMonitor]
+  );
+
+  React.useEffect(() => {
+    monitor?.recordConnection(state, status, conn?.serverAddress);
+  }, [conn, monitor, state, status]);
+  const [outbox] = React.useState(() =>
+    outboxOptions
+      ? createOutbox(outboxOptions === true ? {} : outboxOptions, logger)
+      : undefined
+  );
+
+  React.useEffect(() => {
+    outbox?.attach(conn);
+  }, [conn, outbox]);
+
+  const [snapshot] = React.useState(
+    () => new Map((initialSnapshot || []).map((kvp) => [kvp.key, kvp.value]))
+  );
+
+  React.useEffect(() => {
+    // the snapshot only bridges the gap until live data is available
+    if (conn) {
+      snapshot.clear();
+    }
+  }, [conn, snapshot]);
+
+  return React.useMemo(
+    () => ({
+      connection,
+      address: conn?.serverAddress,
+      state,
+      status,
+      publishStreams: pubSRef.current,
+      nextReconnect,
+      reconnectAttempts,
+      reconnect,
+      rotateAuthToken,
+      whenConnected,
+      pendingWrites,
+      outbox,
+      subscriptions,
+      monitor: getMonitor,
+      attachMonitor,
+      client: conn,
+      willRevision,
+      reviseWill,
+      snapshot,
+      logger,
+      selectedAddress,
+      codecFor,
+    }),
+    [
+      attachMonitor,
+      codecFor,
+      conn,
+      connection,
+      getMonitor,
+      logger,
+      nextReconnect,
+      outbox,
+      pendingWrites,
+      reconnect,
+      reconnectAttempts,
+      reviseWill,
+      rotateAuthToken,
+      selectedAddress,
+      snapshot,
+      state,
+      status,
+      subscriptions,
+      whenConnected,
+      willRevision,
+    ]
+  );
 }
 
 export type WorterbuchProps = {
@@ -173,23 +721,66 @@ export type WorterbuchProps = {
   config: Config;
   automaticReconnect?: boolean;
   clientName?: string;
-};
+  reconnectPolicy?: ReconnectPolicy;
+  outbox?: boolean | OutboxOptions;
+  name?: string;
+  initialSnapshot?: KeyValuePairs<Value>;
+  logger?: Logger;
+  logLevel?: LogLevel;
+  serverSelection?: ServerSelection | ServerSelectionOptions;
+  codecs?: CodecRegistry;
+  shareConnection?: boolean | SharedConnectionOptions;
+} & ConnectionEvents;
 
 export function Worterbuch({
   children,
   config,
   automaticReconnect,
   clientName,
+  reconnectPolicy,
+  outbox,
+  name,
+  initialSnapshot,
+  logger,
+  logLevel,
+  onConnect,
+  onDisconnect,
+  onConnectError,
+  onReconnectScheduled,
+  serverSelection,
+  codecs,
+  shareConnection,
 }: WorterbuchProps) {
-  const wb = useWorterbuch(config, automaticReconnect || false, clientName);
+  const log = React.useMemo(
+    () => createLogger(logger, logLevel),
+    [logger, logLevel]
+  );
+  const wb = useWorterbuch(
+    config,
+    automaticReconnect || false,
+    clientName,
+    reconnectPolicy,
+    outbox,
+    initialSnapshot,
+    log,
+    { onConnect, onDisconnect, onConnectError, onReconnectScheduled },
+    serverSelection,
+    codecs,
+    shareConnection
+  );
+  const registry = useRegistry(name, wb);
 
-  return <WbContext.Provider value={wb}>{children}</WbContext.Provider>;
+  return (
+    <WbRegistryContext.Provider value={registry}>
+      <WbContext.Provider value={wb}>{children}</WbContext.Provider>
+    </WbRegistryContext.Provider>
+  );
 }
 
-export function useGetLater<T extends Value>(): (
-  key: string
-) => Promise<T | undefined> {
-  const wb = React.useContext(WbContext);
+export function useGetLater<T extends Value>(
+  connection?: string
+): (key: string) => Promise<T | undefined> {
+  const wb = useWb(connection);
   return React.useCallback(
     (key: string) => {
       if (wb.connection) {
@@ -202,9 +793,10 @@ export function useGetLater<T extends Value>(): (
 }
 
 export function useGet<T extends Value>(
-  key: string
+  key: string,
+  connection?: string
 ): () => Promise<T | undefined> {
-  const wb = React.useContext(WbContext);
+  const wb = useWb(connection);
   return React.useCallback(() => {
     if (wb.connection) {
       return wb.connection.get<T>(key);
@@ -213,8 +805,8 @@ export function useGet<T extends Value>(
   }, [wb.connection, key]);
 }
 
-export function useSPubInit(key: string) {
-  const wb = React.useContext(WbContext);
+export function useSPubInit(key: string, connection?: string) {
+  const wb = useWb(connection);
   if (!wb.publishStreams.has(key)) {
     wb.connection?.sPubInit(key).then((tid) => {
       wb.publishStreams.set(key, tid);
@@ -222,8 +814,11 @@ export function useSPubInit(key: string) {
   }
 }
 
-export function useSPub(key: string): (value: Value) => void {
-  const wb = React.useContext(WbContext);
+export function useSPub(
+  key: string,
+  connection?: string
+): (value: Value) => void {
+  const wb = useWb(connection);
   const tid = wb.publishStreams.get(key);
   return (value: Value) => {
     if (tid != null) {
@@ -232,8 +827,10 @@ export function useSPub(key: string): (value: Value) => void {
   };
 }
 
-export function useSPubLater(): (key: string, value: Value) => void {
-  const wb = React.useContext(WbContext);
+export function useSPubLater(
+  connection?: string
+): (key: string, value: Value) => void {
+  const wb = useWb(connection);
   return (key: string, value: Value) => {
     const tid = wb.publishStreams.get(key);
     if (tid != null) {
@@ -242,8 +839,11 @@ export function useSPubLater(): (key: string, value: Value) => void {
   };
 }
 
-export function useGetOnce<T extends Value>(key: string): T | undefined {
-  const wb = React.useContext(WbContext);
+export function useGetOnce<T extends Value>(
+  key: string,
+  connection?: string
+): T | undefined {
+  const wb = useWb(connection);
   const [value, setValue] = React.useState<T | undefined>(undefined);
   React.useEffect(() => {
     if (wb.connection) {
@@ -256,10 +856,10 @@ export function useGetOnce<T extends Value>(key: string): T | undefined {
   return value;
 }
 
-export function usePGetLater<T extends Value>(): (
-  pattern: string
-) => Promise<KeyValuePairs<T> | undefined> {
-  const wb = React.useContext(WbContext);
+export function usePGetLater<T extends Value>(
+  connection?: string
+): (pattern: string) => Promise<KeyValuePairs<T> | undefined> {
+  const wb = useWb(connection);
   return React.useCallback(
     (pattern: RequestPattern) => {
       if (wb.connection) {
@@ -272,9 +872,10 @@ export function usePGetLater<T extends Value>(): (
 }
 
 export function usePGet<T extends Value>(
-  pattern: RequestPattern
+  pattern: RequestPattern,
+  connection?: string
 ): () => Promise<KeyValuePairs<T> | undefined> {
-  const wb = React.useContext(WbContext);
+  const wb = useWb(connection);
   return React.useCallback(() => {
     if (wb.connection) {
       return wb.connection.pGet<T>(pattern);
@@ -284,9 +885,10 @@ export function usePGet<T extends Value>(
 }
 
 export function usePGetOnce<T extends Value>(
-  pattern: RequestPattern
+  pattern: RequestPattern,
+  connection?: string
 ): KeyValuePairs<T> | undefined {
-  const wb = React.useContext(WbContext);
+  const wb = useWb(connection);
   const [kvps, setKvps] = React.useState<KeyValuePairs<T> | undefined>(
     undefined
   );
@@ -301,38 +903,43 @@ export function usePGetOnce<T extends Value>(
   return kvps;
 }
 
-export function useDeleteLater<T extends Value>(): (
-  key: string
-) => Promise<Value | undefined> {
-  const wb = React.useContext(WbContext);
+export function useDeleteLater<T extends Value>(
+  connection?: string
+): (key: string) => Promise<Value | undefined> {
+  const wb = useWb(connection);
   return React.useCallback(
     (key: string) => {
       if (wb.connection) {
         return wb.connection.delete<T>(key);
       }
+      wb.outbox?.enqueue({ op: "delete", key });
       return Promise.resolve(undefined);
     },
-    [wb.connection]
+    [wb.connection, wb.outbox]
   );
 }
 
 export function useDelete<T extends Value>(
-  key: string
+  key: string,
+  connection?: string
 ): () => Promise<Value | undefined> {
-  const wb = React.useContext(WbContext);
+  const wb = useWb(connection);
   return React.useCallback(() => {
     if (wb.connection) {
       return wb.connection.delete<T>(key);
     }
+    wb.outbox?.enqueue({ op: "delete", key });
     return Promise.resolve(undefined);
-  }, [wb.connection, key]);
+  }, [wb.connection, wb.outbox, key]);
 }
 
-export function usePDeleteLater<T extends Value>(): (
+export function usePDeleteLater<T extends Value>(
+  connection?: string
+): (
   pattern: string,
   quiet?: boolean
 ) => Promise<KeyValuePair<T>[] | undefined> {
-  const wb = React.useContext(WbContext);
+  const wb = useWb(connection);
   return React.useCallback(
     (pattern: string, quiet?: boolean) => {
       if (wb.connection) {
@@ -346,9 +953,10 @@ export function usePDeleteLater<T extends Value>(): (
 
 export function usePDelete<T extends Value>(
   pattern: string,
-  quiet?: boolean
+  quiet?: boolean,
+  connection?: string
 ): () => void {
-  const wb = React.useContext(WbContext);
+  const wb = useWb(connection);
   return React.useCallback(() => {
     if (wb.connection) {
       wb.connection.pDelete<T>(pattern, quiet);
@@ -356,146 +964,95 @@ export function usePDelete<T extends Value>(
   }, [wb.connection, pattern, quiet]);
 }
 
-export function useSubscribe<T extends Value>(
-  key: string,
-  initialValue?: T,
-  unique?: boolean,
-  liveOnly?: boolean
-): T | undefined {
-  const wb = React.useContext(WbContext);
-  const [value, setValue] = React.useState<T | undefined>(initialValue);
-  React.useEffect(() => {
-    const conn = wb.connection;
-    if (conn) {
-      const sub = conn.subscribe<T>(
-        key,
-        ({ value }) => {
-          setValue(value);
-        },
-        unique,
-        liveOnly
-      );
-      return () => {
-        if (conn) {
-          conn.unsubscribe(sub);
-        }
-      };
-    } else {
-      setValue(undefined);
-    }
-  }, [key, liveOnly, unique, wb.connection]);
-  return value;
-}
-
-type PSubState<T> = {
-  values: Map<Key, T>;
-  pattern: string;
-};
-
-export function usePSubscribe<T extends Value>(
-  pattern: string,
-  unique?: boolean,
-  liveOnly?: boolean
-) {
-  const wb = React.useContext(WbContext);
-  const [state, update] = React.useReducer(
-    (state: PSubState<T>, event: [string, PStateEvent<T>]) => {
-      if (event[0] !== state.pattern) {
-        state.values.clear();
-        state.pattern = event[0];
-      }
-      if (event[1].keyValuePairs) {
-        event[1].keyValuePairs.forEach((kvp) => {
-          state.values.set(kvp.key, kvp.value);
-        });
-      }
-      if (event[1].deleted) {
-        event[1].deleted.forEach((kvp) => {
-          state.values.delete(kvp.key);
-        });
-      }
-      return { ...state };
-    },
-    { values: new Map(), pattern: "" }
-  );
-  React.useEffect(() => {
-    const conn = wb.connection;
-    if (conn) {
-      const sub = conn.pSubscribe<T>(
-        pattern,
-        (e) => update([pattern, e]),
-        unique,
-        liveOnly
-      );
-      return () => {
-        if (conn) {
-          conn.unsubscribe(sub);
-        }
-      };
-    }
-  }, [pattern, liveOnly, unique, wb.connection]);
-  return state.values;
-}
-
 export function key(...segemnts: string[]): string {
   return segemnts.join("/");
 }
 
-export function useWorterbuchConnected(): [
+export function useWorterbuchConnected(
+  connection?: string
+): [
   boolean,
   string | undefined,
   ConnectionStatus,
-  ConnectionState
+  ConnectionState,
+  number | undefined,
+  number
 ] {
-  const wb = React.useContext(WbContext);
+  const wb = useWb(connection);
   return [
     wb.connection !== undefined && wb.connection !== null,
     wb.address,
     wb.status,
     wb.state,
+    wb.nextReconnect,
+    wb.reconnectAttempts,
   ];
 }
 
-export function useSetLater<T extends Value>() {
-  const wb = React.useContext(WbContext);
-  return React.useCallback(
-    (key: string, value: T) => {
-      return wb.connection?.set<T>(key, value);
-    },
-    [wb.connection]
-  );
+export type ConnectionSummary = {
+  connected: boolean;
+  address: string | undefined;
+  status: ConnectionStatus;
+  state: ConnectionState;
+};
+
+export function useWorterbuchConnections(): Map<string, ConnectionSummary> {
+  const registry = React.useContext(WbRegistryContext);
+  return React.useMemo(() => {
+    const summaries = new Map<string, ConnectionSummary>();
+    registry.forEach((wb, name) =>
+      summaries.set(name, {
+        connected: wb.connection !== undefined && wb.connection !== null,
+        address: wb.address,
+        status: wb.status,
+        state: wb.state,
+      })
+    );
+    return summaries;
+  }, [registry]);
 }
 
-export function useSet<T extends Value>(key: string) {
-  const wb = React.useContext(WbContext);
-  return React.useCallback(
-    (value: T) => wb.connection?.set<T>(key, value),
-    [wb.connection, key]
-  );
+export function useSelectedServer(connection?: string): string | undefined {
+  return useWb(connection).selectedAddress;
 }
 
-export function usePublishLater<T extends Value>() {
-  const wb = React.useContext(WbContext);
-  return React.useCallback(
-    (key: string, value: T) => {
-      return wb.connection?.publish<T>(key, value);
-    },
-    [wb.connection]
-  );
+export function useReconnect(connection?: string): () => void {
+  return useWb(connection).reconnect;
 }
 
-export function usePublish<T extends Value>(key: string) {
-  const wb = React.useContext(WbContext);
-  return React.useCallback(
-    (value: T) => wb.connection?.publish<T>(key, value),
-    [wb.connection, key]
+export function useRotateAuthToken(connection?: string): () => void {
+  return useWb(connection).rotateAuthToken;
+}
+
+export function useOutbox(connection?: string): {
+  writes: QueuedWrite[];
+  length: number;
+  discard: (key?: string) => void;
+} {
+  const wb = useWb(connection);
+  const outbox = wb.outbox;
+  const [writes, setWrites] = React.useState<QueuedWrite[]>(
+    () => outbox?.writes() || []
+  );
+  React.useEffect(() => {
+    if (!outbox) {
+      setWrites([]);
+      return;
+    }
+    setWrites(outbox.writes());
+    return outbox.subscribe(() => setWrites(outbox.writes()));
+  }, [outbox]);
+  const discard = React.useCallback(
+    (key?: string) => outbox?.discard(key),
+    [outbox]
   );
+  return { writes, length: writes.length, discard };
 }
 
-export function useLsLater(): (
-  parent: string | undefined
-) => Promise<Children | undefined> {
-  const wb = React.useContext(WbContext);
+export function useLsLater(
+  connection?: string
+): (parent: string | undefined) => Promise<Children | undefined> {
+  const wb = useWb(connection);
   return React.useCallback(
     (parent: string | undefined) => {
       if (wb.connection) {
@@ -507,10 +1064,10 @@ export function useLsLater(): (
   );
 }
 
-export function usePLsLater(): (
-  parentPattern: string | undefined
-) => Promise<Children | undefined> {
-  const wb = React.useContext(WbContext);
+export function usePLsLater(
+  connection?: string
+): (parentPattern: string | undefined) => Promise<Children | undefined> {
+  const wb = useWb(connection);
   return React.useCallback(
     (parentPattern: string | undefined) => {
       if (wb.connection) {
@@ -523,9 +1080,10 @@ export function usePLsLater(): (
 }
 
 export function useLs(
-  parent: string | undefined
+  parent: string | undefined,
+  connection?: string
 ): () => Promise<Children | undefined> {
-  const wb = React.useContext(WbContext);
+  const wb = useWb(connection);
   return React.useCallback(() => {
     if (wb.connection) {
       return wb.connection.ls(parent);
@@ -535,9 +1093,10 @@ export function useLs(
 }
 
 export function usePLs(
-  parentPattern: string | undefined
+  parentPattern: string | undefined,
+  connection?: string
 ): () => Promise<Children | undefined> {
-  const wb = React.useContext(WbContext);
+  const wb = useWb(connection);
   return React.useCallback(() => {
     if (wb.connection) {
       return wb.connection.pLs(parentPattern);
@@ -546,8 +1105,11 @@ export function usePLs(
   }, [wb.connection, parentPattern]);
 }
 
-export function useLsOnce(parent: string | undefined): string[] {
-  const wb = React.useContext(WbContext);
+export function useLsOnce(
+  parent: string | undefined,
+  connection?: string
+): string[] {
+  const wb = useWb(connection);
   const [children, setChildren] = React.useState<string[]>([]);
   React.useEffect(() => {
     if (wb.connection) {
@@ -557,8 +1119,11 @@ export function useLsOnce(parent: string | undefined): string[] {
   return children;
 }
 
-export function usePLsOnce(parentPattern: string | undefined): string[] {
-  const wb = React.useContext(WbContext);
+export function usePLsOnce(
+  parentPattern: string | undefined,
+  connection?: string
+): string[] {
+  const wb = useWb(connection);
   const [children, setChildren] = React.useState<string[]>([]);
   React.useEffect(() => {
     if (wb.connection) {
@@ -568,197 +1133,337 @@ export function usePLsOnce(parentPattern: string | undefined): string[] {
   return children;
 }
 
-export function useSubscribeLs(parent: string | undefined): Children {
-  const wb = React.useContext(WbContext);
+export function useSubscribeLs(
+  parent: string | undefined,
+  connection?: string
+): Children {
+  const wb = useWb(connection);
+  const ownerRef = useOwnerRef(wb);
   const [children, setChildren] = React.useState<Children>([]);
   React.useEffect(() => {
     const conn = wb.connection;
     if (conn) {
-      const sub = conn.subscribeLs(parent, setChildren);
-      return () => {
-        if (conn) {
-          conn.unsubscribeLs(sub);
-        }
-      };
+      return withOwner(wb.monitor, ownerRef.current, () =>
+        wb.subscriptions.subscribeLs(conn, parent, setChildren)
+      );
     }
-  }, [parent, wb.connection]);
+  }, [ownerRef, parent, wb.connection, wb.monitor, wb.subscriptions]);
   return children;
 }
 
-export function useLastWill<T extends Value>(): Promise<
-  KeyValuePairs<T> | undefined
-> {
-  const wb = React.useContext(WbContext);
-  return wb.connection?.lastWill<T>() || Promise.resolve(undefined);
+// the read is repeated for a new connection or after the setters were used
+function useWillRead<R>(
+  wb: WB,
+  read: (conn: Worterbuch) => Promise<R>
+): Promise<R | undefined> {
+  const readRef = React.useRef<{
+    conn: Worterbuch | undefined;
+    revision: number;
+    result: Promise<R | undefined>;
+  }>();
+  let current = readRef.current;
+  if (
+    !current ||
+    current.conn !== wb.connection ||
+    current.revision !== wb.willRevision
+  ) {
+    current = {
+      conn: wb.connection,
+      revision: wb.willRevision,
+      result: wb.connection ? read(wb.connection) : Promise.resolve(undefined),
+    };
+    readRef.current = current;
+  }
+  return current.result;
 }
 
-export function useGraveGoods(): Promise<string[] | undefined> {
-  const wb = React.useContext(WbContext);
-  return wb.connection?.graveGoods() || Promise.resolve(undefined);
+export function useLastWill<T extends Value>(
+  connection?: string
+): Promise<KeyValuePairs<T> | undefined> {
+  return useWillRead(useWb(connection), (conn) => conn.lastWill<T>());
 }
 
-export function useSetLastWill<T extends Value>(lastWill: KeyValuePairs<T>) {
-  const wb = React.useContext(WbContext);
-  React.useEffect(() => {
-    wb.connection?.setLastWill<T>(lastWill);
-  }, [lastWill, wb.connection]);
+export function useGraveGoods(
+  connection?: string
+): Promise<string[] | undefined> {
+  return useWillRead(useWb(connection), (conn) => conn.graveGoods());
 }
 
-export function useSetLastWillLater<T extends Value>() {
-  const wb = React.useContext(WbContext);
+// the setters do not report whether the server accepted the value, reading it
+// back on the same connection does, and only then do readers need to refresh
+function useWillWriter<V extends Value>(
+  wb: WB,
+  write: (conn: Worterbuch, value: V) => void,
+  read: (conn: Worterbuch) => Promise<V>
+): (value: V) => void {
+  const { reviseWill } = wb;
+  const conn = wb.connection;
+  const writeRef = React.useRef({ write, read });
+  writeRef.current = { write, read };
   return React.useCallback(
-    (lastWill: KeyValuePairs<T>) => wb.connection?.setLastWill<T>(lastWill),
-    [wb.connection]
+    (value: V) => {
+      if (!conn) {
+        return;
+      }
+      const { write, read } = writeRef.current;
+      write(conn, value);
+      read(conn)
+        .then((stored) => {
+          if (deepEqual(stored, value)) {
+            reviseWill();
+          }
+        })
+        .catch(() => undefined);
+    },
+    [conn, reviseWill]
+  );
+}
+
+// inline values are new on every render, so only changed values are sent
+function useWillEffect<V extends Value>(
+  value: V,
+  conn: Worterbuch | undefined,
+  send: (value: V) => void
+) {
+  const sentRef = React.useRef<{ conn: Worterbuch; value: V }>();
+  React.useEffect(() => {
+    const sent = sentRef.current;
+    if (!conn || (sent?.conn === conn && deepEqual(sent.value, value))) {
+      return;
+    }
+    sentRef.current = { conn, value };
+    send(value);
+  }, [conn, send, value]);
+}
+
+export function useSetLastWill<T extends Value>(
+  lastWill: KeyValuePairs<T>,
+  connection?: string
+) {
+  const wb = useWb(connection);
+  useWillEffect(lastWill, wb.connection, useSetLastWillLater<T>(connection));
+}
+
+export function useSetLastWillLater<T extends Value>(connection?: string) {
+  return useWillWriter<KeyValuePairs<T>>(
+    useWb(connection),
+    (conn, lastWill) => conn.setLastWill<T>(lastWill),
+    (conn) => conn.lastWill<T>()
   );
 }
 
-export function useSetClientName(clientName: string) {
-  const wb = React.useContext(WbContext);
+export function useSetClientName(clientName: string, connection?: string) {
+  const wb = useWb(connection);
   React.useEffect(() => {
     wb.connection?.setClientName(clientName);
   }, [clientName, wb.connection]);
 }
 
-export function useSetClientNamelLater() {
-  const wb = React.useContext(WbContext);
+export function useSetClientNamelLater(connection?: string) {
+  const wb = useWb(connection);
   return React.useCallback(
     (clientName: string) => wb.connection?.setClientName(clientName),
     [wb.connection]
   );
 }
 
-export function useSetGraveGoods(graveGoods: string[]) {
-  const wb = React.useContext(WbContext);
-  React.useEffect(() => {
-    wb.connection?.setGraveGoods(graveGoods);
-  }, [graveGoods, wb.connection]);
+export function useSetGraveGoods(graveGoods: string[], connection?: string) {
+  const wb = useWb(connection);
+  useWillEffect(graveGoods, wb.connection, useSetGraveGoodsLater(connection));
 }
 
-export function useSetGraveGoodsLater() {
-  const wb = React.useContext(WbContext);
-  return React.useCallback(
-    (graveGoods: string[]) => wb.connection?.setGraveGoods(graveGoods),
-    [wb.connection]
+export function useSetGraveGoodsLater(connection?: string) {
+  return useWillWriter<string[]>(
+    useWb(connection),
+    (conn, graveGoods) => conn.setGraveGoods(graveGoods),
+    (conn) => conn.graveGoods()
   );
 }
 
-export function useWbState<T extends Value>(key: string, initialValue?: T) {
-  const wb = React.useContext(WbContext);
+export type WbStateOptions<T = Value> = SetOptions<T> & {
+  optimistic?: boolean;
+};
+
+export function useWbState<T = Value>(
+  key: string,
+  initialValue?: T,
+  options?: WbStateOptions<T>,
+  connection?: string,
+  codec?: Codec<T>
+): [
+  T | undefined,
+  React.Dispatch<React.SetStateAction<T | undefined>>,
+  boolean
+] {
+  const wb = useWb(connection);
+  const codecFor = useCodecFor(wb.codecFor, codec);
 
   const [state, setState] = React.useState<T | undefined>(initialValue);
   const [connected, setConnected] = React.useState(false);
+  const pending = useIsPending(key, connection);
+
+  // last value known to be held by the server, used to roll back failed writes
+  const confirmedRef = React.useRef<T | undefined>(undefined);
+  const inFlightRef = React.useRef(0);
+  const optionsRef = React.useRef(options);
+  optionsRef.current = options;
 
   React.useEffect(() => {
     const conn = wb.connection;
     if (!connected) {
-      conn?.get<T>(key).then((v) => {
+      conn?.get(key).then((v) => {
         if (!connected && v === undefined) {
-          conn?.set(key, initialValue || null);
+          conn?.set(
+            key,
+            initialValue ? encodeValue(codecFor(key), initialValue) : null
+          );
         }
       });
     }
-  }, [connected, initialValue, key, wb.connection]);
+  }, [codecFor, connected, initialValue, key, wb.connection]);
 
+  // the state follows the client cache rather than the shared subscriptions,
+  // so it is not held back while a batch is committed
   React.useEffect(() => {
     const conn = wb.connection;
-    const tid = conn?.cached()?.subscribe<T>(key, (value: T | undefined) => {
+    const tid = conn?.cached()?.subscribe(key, (encoded: Value | undefined) => {
+      const value = decodeValue<T>(codecFor(key), encoded, wb.logger);
+      if (inFlightRef.current === 0) {
+        confirmedRef.current = value;
+      }
       setState(value);
       setConnected(true);
     });
     return () => {
       if (tid !== undefined) {
-        conn?.unsubscribe(tid);
+        conn?.cached()?.unsubscribe(tid);
       }
     };
-  }, [key, wb.connection]);
+  }, [codecFor, key, wb.connection, wb.logger]);
 
   React.useEffect(() => {
-    if (connected) {
-      if (state === undefined) {
-        wb.connection?.cached()?.delete(key);
-      } else {
-        wb.connection?.cached()?.set(key, state);
-      }
+    const cache = wb.connection?.cached();
+    if (!connected || !cache) {
+      return;
     }
-  }, [connected, key, state, wb.connection]);
+    const codec = codecFor(key);
+    const encode = (value: T | undefined) =>
+      value === undefined ? undefined : encodeValue(codec, value);
+    const encoded = encode(state);
+    // compare encoded values, decoded ones like dates have no own properties
+    if (deepEqual(encoded, encode(confirmedRef.current))) {
+      return;
+    }
+    const write: Promise<unknown> =
+      encoded === undefined ? cache.delete(key) : cache.set(key, encoded);
+    inFlightRef.current++;
+    wb.pendingWrites.track(key, write).then(
+      () => {
+        inFlightRef.current--;
+        confirmedRef.current = state;
+      },
+      (e) => {
+        inFlightRef.current--;
+        const confirmed = confirmedRef.current;
+        if (optionsRef.current?.optimistic && inFlightRef.current === 0) {
+          setState(confirmed);
+          // the cache already holds the rejected value, so restore it there too
+          const restored = encode(confirmed);
+          const restore: Promise<unknown> =
+            restored === undefined
+              ? cache.delete(key)
+              : cache.set(key, restored);
+          restore.catch(() => undefined);
+        }
+        optionsRef.current?.onError?.(toError(e), state);
+      }
+    );
+  }, [codecFor, connected, key, state, wb.connection, wb.pendingWrites]);
 
-  return [state, setState];
+  return [state, setState, pending];
 }
 
-export function useRawWbClient() {
-  return React.useContext(WbContext).connection;
+export function useRawWbClient(connection?: string) {
+  return useWb(connection).client;
 }
 
-export function useExpireCache(maxAge: number, interval?: number) {
-  const wb = React.useContext(WbContext);
+export function useExpireCache(
+  maxAge: number,
+  interval?: number,
+  connection?: string
+) {
+  const wb = useWb(connection);
   wb.connection?.cached()?.expire(maxAge, interval);
 }
 
-export function useCachedGet<T extends Value>(
-  key: string
+export function useCachedGet<T = Value>(
+  key: string,
+  connection?: string,
+  codec?: Codec<T>
 ): () => Promise<T | undefined> {
-  const wb = React.useContext(WbContext);
-  return React.useCallback(() => {
-    if (wb.connection) {
-      return wb.connection.cached().get(key);
-    }
-    return Promise.resolve(undefined);
-  }, [wb.connection, key]);
+  const getLater = useCachedGetLater<T>(connection, codec);
+  return React.useCallback(() => getLater(key), [getLater, key]);
 }
 
-export function useCachedGetLater<T extends Value>(): (
-  key: string
-) => Promise<T | undefined> {
-  const wb = React.useContext(WbContext);
+export function useCachedGetLater<T = Value>(
+  connection?: string,
+  codec?: Codec<T>
+): (key: string) => Promise<T | undefined> {
+  const wb = useWb(connection);
+  const codecFor = useCodecFor(wb.codecFor, codec);
   return React.useCallback(
     (key: string) => {
       if (wb.connection) {
-        return wb.connection.cached().get(key);
+        return wb.connection
+          .cached()
+          .get(key)
+          .then((value) => decodeValue<T>(codecFor(key), value, wb.logger));
       }
       return Promise.resolve(undefined);
     },
-    [wb.connection]
+    [codecFor, wb.connection, wb.logger]
   );
 }
 
-export function useCachedSet<T extends Value>(key: string): (value: T) => void {
-  const wb = React.useContext(WbContext);
-  return React.useCallback(
-    (value: T) => {
-      if (wb.connection) {
-        wb.connection.cached().set<T>(key, value);
-      }
-    },
-    [wb.connection, key]
-  );
+export function useCachedSet<T = Value>(
+  key: string,
+  connection?: string,
+  codec?: Codec<T>
+): (value: T) => void {
+  const setLater = useCachedSetLater<T>(connection, codec);
+  return React.useCallback((value: T) => setLater(key, value), [setLater, key]);
 }
 
-export function useCachedSetLater<T extends Value>(): (
-  key: string,
-  value: T
-) => void {
-  const wb = React.useContext(WbContext);
+export function useCachedSetLater<T = Value>(
+  connection?: string,
+  codec?: Codec<T>
+): (key: string, value: T) => void {
+  const wb = useWb(connection);
+  const codecFor = useCodecFor(wb.codecFor, codec);
   return React.useCallback(
     (key: string, value: T) => {
       if (wb.connection) {
-        wb.connection.cached().set<T>(key, value);
+        wb.connection.cached().set(key, encodeValue(codecFor(key), value));
       }
     },
-    [wb.connection]
+    [codecFor, wb.connection]
   );
 }
 
-export function useCachedSubscribe<T extends Value>(
+export function useCachedSubscribe<T = Value>(
   key: string,
-  initialValue?: T
+  initialValue?: T,
+  connection?: string,
+  codec?: Codec<T>
 ): T | undefined {
-  const wb = React.useContext(WbContext);
+  const wb = useWb(connection);
+  const codecFor = useCodecFor(wb.codecFor, codec);
   const [value, setValue] = React.useState<T | undefined>(initialValue);
   React.useEffect(() => {
     const conn = wb.connection;
     if (conn) {
-      const sub = conn.cached().subscribe<T>(key, (v: T | undefined) => {
-        setValue(v);
+      const sub = conn.cached().subscribe(key, (v: Value | undefined) => {
+        setValue(decodeValue<T>(codecFor(key), v, wb.logger));
       });
       return () => {
         if (conn) {
@@ -768,41 +1473,6 @@ export function useCachedSubscribe<T extends Value>(
     } else {
       setValue(undefined);
     }
-  }, [key, wb.connection]);
+  }, [codecFor, key, wb.connection, wb.logger]);
   return value;
 }
-
-function storeConnectedAddress(address?: string) {
-  if (!address) {
-    return;
-  }
-
-  const localStorage = window?.localStorage;
-
-  if (!localStorage) {
-    return;
-  }
-
-  localStorage.setItem("worterbuch.react.connected.server", address);
-}
-
-function sortAddresses(addresses: string[]): string[] {
-  const localStorage = window?.localStorage;
-
-  if (!localStorage) {
-    return addresses;
-  }
-
-  const lastConnected = localStorage.getItem(
-    "worterbuch.react.connected.server"
-  );
-  if (!lastConnected) {
-    return addresses;
-  }
-
-  addresses.sort((a, b) =>
-    a === lastConnected ? -1 : b === lastConnected ? 1 : 0
-  );
-
-  return addresses;
-}
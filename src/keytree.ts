@@ -0,0 +1,199 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Children, Key, Value, Worterbuch } from "worterbuch-js";
+import React from "react";
+import { useWb } from "./context";
+
+export type KeyTreeNode = {
+  key: Key;
+  parent: Key | undefined;
+  segment: string;
+  depth: number;
+  expanded: boolean;
+  // undefined until the node has been expanded at least once
+  children: Key[] | undefined;
+  value: Value | undefined;
+};
+
+export type KeyTreeOptions = {
+  values?: boolean;
+};
+
+export type KeyTree = {
+  // all nodes loaded so far, including those inside collapsed branches
+  nodes: Map<Key, KeyTreeNode>;
+  // the nodes below the root in display order, skipping collapsed branches
+  visible: KeyTreeNode[];
+  expand: (key: Key) => void;
+  collapse: (key: Key) => void;
+  toggle: (key: Key) => void;
+  collapseAll: () => void;
+};
+
+function childKey(parent: Key | undefined, segment: string): Key {
+  return parent ? `${parent}/${segment}` : segment;
+}
+
+// keeps one subscription per key open, expanding or collapsing a branch only
+// opens or closes the subscriptions of the keys that were added or removed
+function useSubscriptionsFor(
+  keys: Key[],
+  conn: Worterbuch | undefined,
+  open: (conn: Worterbuch, key: Key) => () => void
+) {
+  const openRef = React.useRef(open);
+  openRef.current = open;
+  const activeRef = React.useRef(new Map<Key, () => void>());
+  const keysId = JSON.stringify(keys);
+
+  React.useEffect(() => {
+    const active = activeRef.current;
+    return () => {
+      active.forEach((unsubscribe) => unsubscribe());
+      active.clear();
+    };
+  }, [conn]);
+
+  React.useEffect(() => {
+    if (!conn) {
+      return;
+    }
+    const keys = new Set<Key>(JSON.parse(keysId));
+    const active = activeRef.current;
+    active.forEach((unsubscribe, key) => {
+      if (!keys.has(key)) {
+        unsubscribe();
+        active.delete(key);
+      }
+    });
+    keys.forEach((key) => {
+      if (!active.has(key)) {
+        active.set(key, openRef.current(conn, key));
+      }
+    });
+  }, [conn, keysId]);
+}
+
+export function useKeyTree(
+  root?: Key,
+  options?: KeyTreeOptions,
+  connection?: string
+): KeyTree {
+  const wb = useWb(connection);
+  const showValues = options?.values || false;
+  const [expanded, setExpanded] = React.useState<Set<Key>>(() => new Set());
+  const [children, setChildren] = React.useState<Map<Key, Children>>(
+    () => new Map()
+  );
+  const [values, setValues] = React.useState<Map<Key, Value | undefined>>(
+    () => new Map()
+  );
+
+  React.useEffect(() => {
+    setExpanded(new Set());
+    setChildren(new Map());
+    setValues(new Map());
+  }, [root]);
+
+  const rootId = root || "";
+
+  const { nodes, visible } = React.useMemo(() => {
+    const nodes = new Map<Key, KeyTreeNode>();
+    const visible: KeyTreeNode[] = [];
+    const visit = (parent: Key | undefined, depth: number, shown: boolean) => {
+      [...(children.get(parent || "") || [])].sort().forEach((segment) => {
+        const key = childKey(parent, segment);
+        const node: KeyTreeNode = {
+          key,
+          parent,
+          segment,
+          depth,
+          expanded: expanded.has(key),
+          children: children.get(key)?.map((s) => childKey(key, s)),
+          value: values.get(key),
+        };
+        nodes.set(key, node);
+        if (shown) {
+          visible.push(node);
+        }
+        visit(key, depth + 1, shown && node.expanded);
+      });
+    };
+    visit(root, 0, true);
+    return { nodes, visible };
+  }, [children, expanded, root, values]);
+
+  // only the root and expanded levels that are actually visible are listened to
+  const listened = React.useMemo(
+    () => [rootId, ...visible.filter((n) => n.expanded).map((n) => n.key)],
+    [rootId, visible]
+  );
+
+  useSubscriptionsFor(listened, wb.connection, (conn, parent) =>
+    wb.subscriptions.subscribeLs(conn, parent || undefined, (segments) =>
+      setChildren((current) => new Map(current).set(parent, segments))
+    )
+  );
+
+  const valueKeys = React.useMemo(
+    () => (showValues ? visible.map((n) => n.key) : []),
+    [showValues, visible]
+  );
+
+  useSubscriptionsFor(valueKeys, wb.connection, (conn, key) =>
+    wb.subscriptions.subscribe<Value>(conn, key, true, undefined, (value) =>
+      setValues((current) => new Map(current).set(key, value))
+    )
+  );
+
+  const expand = React.useCallback(
+    (key: Key) =>
+      setExpanded((current) =>
+        current.has(key) ? current : new Set(current).add(key)
+      ),
+    []
+  );
+
+  const collapse = React.useCallback(
+    (key: Key) =>
+      setExpanded((current) => {
+        if (!current.has(key)) {
+          return current;
+        }
+        const next = new Set(current);
+        next.delete(key);
+        return next;
+      }),
+    []
+  );
+
+  const toggle = React.useCallback(
+    (key: Key) =>
+      setExpanded((current) => {
+        const next = new Set(current);
+        if (!next.delete(key)) {
+          next.add(key);
+        }
+        return next;
+      }),
+    []
+  );
+
+  const collapseAll = React.useCallback(() => setExpanded(new Set()), []);
+
+  return { nodes, visible, expand, collapse, toggle, collapseAll };
+}
@@ -0,0 +1,147 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key } from "worterbuch-js";
+import React from "react";
+import { KeyTreeNode, useKeyTree } from "./keytree";
+
+const styles: { [name: string]: React.CSSProperties } = {
+  panel: { fontFamily: "monospace", fontSize: "12px" },
+  search: { width: "100%", boxSizing: "border-box", marginBottom: "4px" },
+  tree: { outline: "none", maxHeight: "50vh", overflow: "auto" },
+  node: { cursor: "pointer", whiteSpace: "nowrap" },
+  selected: { background: "#264f78", color: "#ffffff" },
+  value: { opacity: 0.7, marginLeft: "8px" },
+};
+
+export type KeyTreeBrowserProps = {
+  root?: Key;
+  showValues?: boolean;
+  connection?: string;
+  onSelect?: (key: Key) => void;
+  style?: React.CSSProperties;
+};
+
+export function KeyTreeBrowser({
+  root,
+  showValues,
+  connection,
+  onSelect,
+  style,
+}: KeyTreeBrowserProps) {
+  const tree = useKeyTree(root, { values: showValues }, connection);
+  const [selected, setSelected] = React.useState<Key | undefined>();
+  const [search, setSearch] = React.useState("");
+
+  // while searching, all loaded nodes are listed flat, including collapsed ones
+  const shown: KeyTreeNode[] = React.useMemo(
+    () =>
+      search
+        ? [...tree.nodes.values()]
+            .filter((node) =>
+              node.key.toLowerCase().includes(search.toLowerCase())
+            )
+            .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+        : tree.visible,
+    [search, tree.nodes, tree.visible]
+  );
+
+  const select = (key: Key | undefined) => {
+    setSelected(key);
+    if (key !== undefined) {
+      onSelect?.(key);
+    }
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const index = shown.findIndex((node) => node.key === selected);
+    const node = index >= 0 ? shown[index] : undefined;
+    switch (e.key) {
+      case "ArrowDown":
+        select(shown[Math.min(index + 1, shown.length - 1)]?.key);
+        break;
+      case "ArrowUp":
+        select(shown[Math.max(index - 1, 0)]?.key);
+        break;
+      case "Home":
+        select(shown[0]?.key);
+        break;
+      case "End":
+        select(shown[shown.length - 1]?.key);
+        break;
+      case "ArrowRight":
+        if (node && !node.expanded) {
+          tree.expand(node.key);
+        } else if (node?.children?.length) {
+          select(shown[index + 1]?.key);
+        }
+        break;
+      case "ArrowLeft":
+        if (node?.expanded) {
+          tree.collapse(node.key);
+        } else if (node?.parent && tree.nodes.has(node.parent)) {
+          select(node.parent);
+        }
+        break;
+      case "Enter":
+      case " ":
+        if (node) {
+          tree.toggle(node.key);
+        }
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div style={{ ...styles.panel, ...style }}>
+      <input
+        style={styles.search}
+        placeholder="search loaded keys"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+      />
+      <div role="tree" tabIndex={0} style={styles.tree} onKeyDown={onKeyDown}>
+        {shown.map((node) => (
+          <div
+            key={node.key}
+            role="treeitem"
+            aria-level={node.depth + 1}
+            aria-expanded={node.expanded}
+            aria-selected={node.key === selected}
+            style={{
+              ...styles.node,
+              ...(node.key === selected ? styles.selected : {}),
+              paddingLeft: search ? 0 : `${node.depth * 16}px`,
+            }}
+            onClick={() => {
+              select(node.key);
+              tree.toggle(node.key);
+            }}
+          >
+            {node.children?.length === 0 ? "  " : node.expanded ? "▾ " : "▸ "}
+            {search ? node.key : node.segment}
+            {showValues && node.value !== undefined ? (
+              <span style={styles.value}>{JSON.stringify(node.value)}</span>
+            ) : null}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react";
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export type Logger = {
+  debug: (...args: unknown[]) => void;
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+};
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+export const consoleLogger: Logger = {
+  debug: (...args) => console.debug(...args),
+  info: (...args) => console.log(...args),
+  warn: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args),
+};
+
+export function createLogger(
+  logger: Logger = consoleLogger,
+  level: LogLevel = "info"
+): Logger {
+  const threshold = LEVELS.indexOf(level);
+  const noop = () => undefined;
+  const at = (l: Exclude<LogLevel, "silent">) =>
+    LEVELS.indexOf(l) >= threshold
+      ? (...args: unknown[]) => logger[l](...args)
+      : noop;
+  return {
+    debug: at("debug"),
+    info: at("info"),
+    warn: at("warn"),
+    error: at("error"),
+  };
+}
+
+export function useLatestLogger(logger: Logger): Logger {
+  const ref = React.useRef(logger);
+  ref.current = logger;
+  const [stable] = React.useState<Logger>(() => ({
+    debug: (...args) => ref.current.debug(...args),
+    info: (...args) => ref.current.info(...args),
+    warn: (...args) => ref.current.warn(...args),
+    error: (...args) => ref.current.error(...args),
+  }));
+  return stable;
+}
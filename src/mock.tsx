@@ -0,0 +1,617 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/* eslint-disable react-refresh/only-export-components */
+
+import {
+  Children,
+  Key,
+  KeyValuePairs,
+  LsCallback,
+  PStateCallback,
+  RequestPattern,
+  StateCallback,
+  TransactionID,
+  Value,
+  WbCache,
+  Worterbuch,
+} from "worterbuch-js";
+import React from "react";
+import {
+  ConnectionState,
+  ConnectionStatus,
+  WB,
+  WbContext,
+  WbRegistryContext,
+  useMonitorAttachment,
+  useRevision,
+  useRegistry,
+  useWhenConnected,
+} from "./context";
+import { createPendingWrites } from "./pending";
+import { createSubscriptionManager } from "./subscriptions";
+import { observeConnection } from "./observe";
+import { OutboxOptions, createOutbox } from "./outbox";
+import { createLogger } from "./logger";
+import { CodecRegistry, useCodecRegistry } from "./codec";
+import { deepEqual, matchPattern, matches } from "./util";
+
+export type MockWrite = {
+  op: "set" | "publish" | "delete" | "pDelete" | "sPub";
+  key: Key;
+  value?: Value;
+};
+
+export type MockWorterbuchOptions = {
+  initialValues?: { [key: Key]: Value };
+  connected?: boolean;
+  clientId?: string;
+  serverAddress?: string;
+};
+
+export type MockWorterbuchStore = {
+  readonly connection: Worterbuch | undefined;
+  seed: (values: { [key: Key]: Value }) => void;
+  push: <T extends Value>(key: Key, value: T) => void;
+  pushPublish: <T extends Value>(key: Key, value: T) => void;
+  pushDelete: (key: Key) => void;
+  value: <T extends Value>(key: Key) => T | undefined;
+  connect: () => void;
+  disconnect: () => void;
+  failWith: (error: Error | undefined) => void;
+  writes: () => MockWrite[];
+  wasWritten: (key: Key) => boolean;
+  lastWritten: <T extends Value>(key: Key) => T | undefined;
+  clearWrites: () => void;
+  onConnectionChange: (listener: () => void) => () => void;
+};
+
+type KeySubscription = {
+  key: Key;
+  callback: StateCallback<Value>;
+  unique: boolean;
+};
+
+type PatternSubscription = {
+  pattern: RequestPattern;
+  callback: PStateCallback<Value>;
+  unique: boolean;
+};
+
+type LsSubscription = {
+  parent: Key | undefined;
+  callback: LsCallback;
+  children: Children;
+};
+
+export function createMockWorterbuch(
+  options?: MockWorterbuchOptions
+): MockWorterbuchStore {
+  const values = new Map<Key, Value>();
+  const subscriptions = new Map<TransactionID, KeySubscription>();
+  const pSubscriptions = new Map<TransactionID, PatternSubscription>();
+  const lsSubscriptions = new Map<TransactionID, LsSubscription>();
+  const publishStreams = new Map<TransactionID, Key>();
+  const locks = new Set<Key>();
+  const listeners = new Set<() => void>();
+  let writeLog: MockWrite[] = [];
+  let error: Error | undefined;
+  let connection: Worterbuch | undefined;
+  let transactionId = 0;
+  let clientCount = 0;
+
+  const nextTransactionId = () => ++transactionId;
+
+  const later = (action: () => void) => {
+    Promise.resolve().then(action);
+  };
+
+  const lsChildren = (parent: Key | undefined, pattern: boolean) => {
+    const depth = parent ? parent.split("/").length : 0;
+    const children = new Set<string>();
+    values.forEach((_, key) => {
+      const segments = key.split("/");
+      if (segments.length <= depth) {
+        return;
+      }
+      const prefix = segments.slice(0, depth).join("/");
+      if (!parent || (pattern ? matches(parent, prefix) : prefix === parent)) {
+        children.add(segments[depth]);
+      }
+    });
+    return [...children];
+  };
+
+  const notifyLs = () => {
+    lsSubscriptions.forEach((sub) => {
+      const children = lsChildren(sub.parent, false);
+      if (
+        children.length !== sub.children.length ||
+        children.some((c) => !sub.children.includes(c))
+      ) {
+        sub.children = children;
+        sub.callback(children);
+      }
+    });
+  };
+
+  const applySet = (key: Key, value: Value, publish: boolean) => {
+    const previous = values.get(key);
+    const unchanged = values.has(key) && deepEqual(previous, value);
+    if (!publish) {
+      values.set(key, value);
+    }
+    subscriptions.forEach((sub) => {
+      if (sub.key === key && !(sub.unique && unchanged)) {
+        sub.callback({ value });
+      }
+    });
+    pSubscriptions.forEach((sub) => {
+      if (matches(sub.pattern, key) && !(sub.unique && unchanged)) {
+        sub.callback({ keyValuePairs: [{ key, value }] });
+      }
+    });
+    if (!publish) {
+      notifyLs();
+    }
+  };
+
+  const applyDelete = (key: Key): Value | undefined => {
+    if (!values.has(key)) {
+      return undefined;
+    }
+    const deleted = values.get(key) as Value;
+    values.delete(key);
+    subscriptions.forEach((sub) => {
+      if (sub.key === key) {
+        sub.callback({ deleted });
+      }
+    });
+    pSubscriptions.forEach((sub) => {
+      if (matches(sub.pattern, key)) {
+        sub.callback({ deleted: [{ key, value: deleted }] });
+      }
+    });
+    notifyLs();
+    return deleted;
+  };
+
+  const matching = (pattern: RequestPattern): KeyValuePairs<Value> => {
+    const kvps: KeyValuePairs<Value> = [];
+    values.forEach((value, key) => {
+      if (matchPattern(pattern, key)) {
+        kvps.push({ key, value });
+      }
+    });
+    return kvps;
+  };
+
+  const createConnection = (): Worterbuch => {
+    const clientId = `${options?.clientId || "mock-client"}-${++clientCount}`;
+
+    const guard = <R,>(action: () => R): Promise<R> => {
+      if (connection !== conn) {
+        return Promise.reject(new Error("mock connection is closed"));
+      }
+      if (error) {
+        return Promise.reject(error);
+      }
+      return Promise.resolve().then(action);
+    };
+
+    const write = <R,>(entry: MockWrite, action: () => R): Promise<R> => {
+      if (connection === conn && !error) {
+        writeLog.push(entry);
+      }
+      return guard(action);
+    };
+
+    const get = <T extends Value>(key: Key) =>
+      guard(() => values.get(key) as T | undefined);
+    const set = <T extends Value>(key: Key, value: T) =>
+      write({ op: "set", key, value }, () => applySet(key, value, false));
+    const del = <T extends Value>(key: Key) =>
+      write({ op: "delete", key }, () => applyDelete(key) as T | undefined);
+
+    const cache: WbCache = {
+      get,
+      set,
+      delete: del,
+      subscribe: <T extends Value>(
+        key: Key,
+        callback: (value: T | undefined) => void
+      ) => conn.subscribe<T>(key, (e) => callback(e.value), true, false),
+      unsubscribe: (tid: TransactionID) => conn.unsubscribe(tid),
+      expire: () => undefined,
+    };
+
+    const conn: Worterbuch = {
+      get,
+      pGet: <T extends Value>(pattern: RequestPattern) =>
+        guard(() => matching(pattern) as KeyValuePairs<T>),
+      delete: del,
+      pDelete: <T extends Value>(pattern: RequestPattern, quiet?: boolean) =>
+        write({ op: "pDelete", key: pattern }, () => {
+          const deleted = matching(pattern);
+          deleted.forEach(({ key }) => applyDelete(key));
+          return (quiet ? [] : deleted) as KeyValuePairs<T>;
+        }),
+      set,
+      sPubInit: (key: Key) =>
+        guard(() => {
+          const tid = nextTransactionId();
+          publishStreams.set(tid, key);
+          return tid;
+        }),
+      sPub: <T extends Value>(tid: TransactionID, value: T) => {
+        const key = publishStreams.get(tid);
+        if (key !== undefined && connection === conn) {
+          writeLog.push({ op: "sPub", key, value });
+          applySet(key, value, true);
+        }
+      },
+      publish: <T extends Value>(key: Key, value: T) =>
+        write({ op: "publish", key, value }, () => applySet(key, value, true)),
+      subscribe: <T extends Value>(
+        key: Key,
+        callback: StateCallback<T>,
+        unique?: boolean,
+        liveOnly?: boolean
+      ) => {
+        const tid = nextTransactionId();
+        subscriptions.set(tid, {
+          key,
+          callback: callback as StateCallback<Value>,
+          unique: unique || false,
+        });
+        if (!liveOnly) {
+          later(() => {
+            if (subscriptions.has(tid) && values.has(key)) {
+              callback({ value: values.get(key) as T });
+            }
+          });
+        }
+        return tid;
+      },
+      pSubscribe: <T extends Value>(
+        pattern: RequestPattern,
+        callback: PStateCallback<T>,
+        unique?: boolean,
+        liveOnly?: boolean
+      ) => {
+        const tid = nextTransactionId();
+        pSubscriptions.set(tid, {
+          pattern,
+          callback: callback as PStateCallback<Value>,
+          unique: unique || false,
+        });
+        if (!liveOnly) {
+          later(() => {
+            const kvps = matching(pattern);
+            if (pSubscriptions.has(tid) && kvps.length > 0) {
+              callback({ keyValuePairs: kvps as KeyValuePairs<T> });
+            }
+          });
+        }
+        return tid;
+      },
+      unsubscribe: (tid: TransactionID) => {
+        subscriptions.delete(tid);
+        pSubscriptions.delete(tid);
+      },
+      ls: (parent?: Key) => guard(() => lsChildren(parent, false)),
+      pLs: (parent?: RequestPattern) => guard(() => lsChildren(parent, true)),
+      subscribeLs: (parent: Key | undefined, callback: LsCallback) => {
+        const tid = nextTransactionId();
+        const sub = { parent, callback, children: [] as Children };
+        lsSubscriptions.set(tid, sub);
+        later(() => {
+          if (lsSubscriptions.has(tid)) {
+            sub.children = lsChildren(parent, false);
+            callback(sub.children);
+          }
+        });
+        return tid;
+      },
+      unsubscribeLs: (tid: TransactionID) => {
+        lsSubscriptions.delete(tid);
+      },
+      lock: (key: Key) =>
+        guard(() => {
+          if (locks.has(key)) {
+            return false;
+          }
+          locks.add(key);
+          return true;
+        }),
+      acquireLock: (key: Key) =>
+        guard(() => {
+          locks.add(key);
+        }),
+      releaseLock: (key: Key) => guard(() => locks.delete(key)),
+      tryLocked: async <T,>(key: Key, action: () => T) => {
+        if (await conn.lock(key)) {
+          try {
+            return await action();
+          } finally {
+            await conn.releaseLock(key);
+          }
+        }
+        return undefined;
+      },
+      locked: async <T,>(key: Key, action: () => T) => {
+        await conn.acquireLock(key);
+        try {
+          return await action();
+        } finally {
+          await conn.releaseLock(key);
+        }
+      },
+      close: () => {
+        if (connection === conn) {
+          disconnect();
+        }
+      },
+      clientId: () => clientId,
+      graveGoods: async () =>
+        (await get<string[]>(`$SYS/clients/${clientId}/graveGoods`)) || [],
+      lastWill: async <T extends Value>() =>
+        (await get<KeyValuePairs<T>>(`$SYS/clients/${clientId}/lastWill`)) ||
+        [],
+      clientName: () => get<string>(`$SYS/clients/${clientId}/clientName`),
+      setGraveGoods: (graveGoods: string[] | undefined) => {
+        if (graveGoods) {
+          set(`$SYS/clients/${clientId}/graveGoods`, graveGoods);
+        } else {
+          del(`$SYS/clients/${clientId}/graveGoods`);
+        }
+      },
+      setLastWill: <T extends Value>(
+        lastWill: KeyValuePairs<T> | undefined
+      ) => {
+        if (lastWill) {
+          set(`$SYS/clients/${clientId}/lastWill`, lastWill);
+        } else {
+          del(`$SYS/clients/${clientId}/lastWill`);
+        }
+      },
+      setClientName: (clientName: string) => {
+        set(`$SYS/clients/${clientId}/clientName`, clientName);
+      },
+      cached: () => cache,
+      serverAddress: options?.serverAddress || "mock://worterbuch",
+    };
+
+    return conn;
+  };
+
+  const notifyListeners = () => listeners.forEach((listener) => listener());
+
+  const connect = () => {
+    if (connection) {
+      return;
+    }
+    connection = createConnection();
+    notifyListeners();
+  };
+
+  const disconnect = () => {
+    const conn = connection;
+    if (!conn) {
+      return;
+    }
+    const clientId = conn.clientId();
+    const graveGoods = values.get(`$SYS/clients/${clientId}/graveGoods`);
+    const lastWill = values.get(`$SYS/clients/${clientId}/lastWill`);
+    connection = undefined;
+    subscriptions.clear();
+    pSubscriptions.clear();
+    lsSubscriptions.clear();
+    publishStreams.clear();
+    locks.clear();
+    matching(`$SYS/clients/${clientId}/#`).forEach(({ key }) =>
+      applyDelete(key)
+    );
+    if (Array.isArray(graveGoods)) {
+      graveGoods.forEach((pattern) =>
+        matching(pattern as string).forEach(({ key }) => applyDelete(key))
+      );
+    }
+    if (Array.isArray(lastWill)) {
+      (lastWill as KeyValuePairs<Value>).forEach(({ key, value }) =>
+        applySet(key, value, false)
+      );
+    }
+    conn.onclose?.();
+    notifyListeners();
+  };
+
+  const seedValues = (initialValues: { [key: Key]: Value }) => {
+    Object.keys(initialValues).forEach((key) =>
+      values.set(key, initialValues[key])
+    );
+  };
+
+  seedValues(options?.initialValues || {});
+
+  if (options?.connected !== false) {
+    connection = createConnection();
+  }
+
+  return {
+    get connection() {
+      return connection;
+    },
+    seed: (initialValues: { [key: Key]: Value }) => {
+      seedValues(initialValues);
+      notifyLs();
+    },
+    push: <T extends Value>(key: Key, value: T) => applySet(key, value, false),
+    pushPublish: <T extends Value>(key: Key, value: T) =>
+      applySet(key, value, true),
+    pushDelete: (key: Key) => {
+      applyDelete(key);
+    },
+    value: <T extends Value>(key: Key) => values.get(key) as T | undefined,
+    connect,
+    disconnect,
+    failWith: (e: Error | undefined) => {
+      error = e;
+    },
+    writes: () => [...writeLog],
+    wasWritten: (key: Key) => writeLog.some((w) => w.key === key),
+    lastWritten: <T extends Value>(key: Key) => {
+      for (let i = writeLog.length - 1; i >= 0; i--) {
+        if (writeLog[i].key === key && writeLog[i].op !== "delete") {
+          return writeLog[i].value as T | undefined;
+        }
+      }
+      return undefined;
+    },
+    clearWrites: () => {
+      writeLog = [];
+    },
+    onConnectionChange: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type MockWorterbuchProps = {
+  children: JSX.Element | JSX.Element[];
+  store?: MockWorterbuchStore;
+  initialValues?: { [key: Key]: Value };
+  clientName?: string;
+  outbox?: boolean | OutboxOptions;
+  name?: string;
+  codecs?: CodecRegistry;
+};
+
+export function MockWorterbuch({
+  children,
+  store,
+  initialValues,
+  clientName,
+  outbox: outboxOptions,
+  name,
+  codecs,
+}: MockWorterbuchProps) {
+  const [defaultStore] = React.useState(() =>
+    createMockWorterbuch({ initialValues })
+  );
+  const mock = store || defaultStore;
+
+  const [rawConnection, setConnection] = React.useState(mock.connection);
+  const pubSRef = React.useRef(new Map());
+
+  React.useEffect(() => {
+    setConnection(mock.connection);
+    return mock.onConnectionChange(() => {
+      pubSRef.current.clear();
+      setConnection(mock.connection);
+    });
+  }, [mock]);
+
+  React.useEffect(() => {
+    if (rawConnection && clientName) {
+      rawConnection.setClientName(clientName);
+    }
+  }, [rawConnection, clientName]);
+
+  const whenConnected = useWhenConnected(rawConnection);
+  const [pendingWrites] = React.useState(createPendingWrites);
+  const [snapshot] = React.useState(() => new Map<string, Value>());
+  const [monitor, getMonitor, attachMonitor] = useMonitorAttachment();
+  const [willRevision, reviseWill] = useRevision();
+  const [logger] = React.useState(() => createLogger());
+  const [subscriptions] = React.useState(() =>
+    createSubscriptionManager(logger)
+  );
+  const codecFor = useCodecRegistry(codecs);
+  const connection = React.useMemo(
+    () => rawConnection && observeConnection(rawConnection, getMonitor),
+    [getMonitor, rawConnection]
+  );
+  const [outbox] = React.useState(() =>
+    outboxOptions
+      ? createOutbox(outboxOptions === true ? {} : outboxOptions)
+      : undefined
+  );
+
+  React.useEffect(() => {
+    outbox?.attach(rawConnection);
+  }, [outbox, rawConnection]);
+
+  const wb: WB = React.useMemo(
+    () => ({
+      connection,
+      address: connection?.serverAddress,
+      state: connection
+        ? ConnectionState.Connected
+        : ConnectionState.Disconnected,
+      status: connection ? ConnectionStatus.Ok : ConnectionStatus.Error,
+      publishStreams: pubSRef.current,
+      nextReconnect: undefined,
+      reconnectAttempts: 0,
+      reconnect: mock.connect,
+      rotateAuthToken: mock.connect,
+      whenConnected,
+      pendingWrites,
+      outbox,
+      subscriptions,
+      monitor: getMonitor,
+      attachMonitor,
+      client: rawConnection,
+      willRevision,
+      reviseWill,
+      snapshot,
+      logger,
+      selectedAddress: connection?.serverAddress,
+      codecFor,
+    }),
+    [
+      attachMonitor,
+      codecFor,
+      connection,
+      getMonitor,
+      logger,
+      mock,
+      outbox,
+      pendingWrites,
+      rawConnection,
+      reviseWill,
+      snapshot,
+      subscriptions,
+      whenConnected,
+      willRevision,
+    ]
+  );
+
+  React.useEffect(() => {
+    monitor?.recordConnection(wb.state, wb.status, wb.address);
+  }, [monitor, wb.address, wb.state, wb.status]);
+
+  const registry = useRegistry(name, wb);
+
+  return (
+    <WbRegistryContext.Provider value={registry}>
+      <WbContext.Provider value={wb}>{children}</WbContext.Provider>
+    </WbRegistryContext.Provider>
+  );
+}
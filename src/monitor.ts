@@ -0,0 +1,178 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key, RequestPattern, TransactionID, Value } from "worterbuch-js";
+import type { ConnectionState, ConnectionStatus } from "./context";
+
+export type TrafficKind =
+  | "set"
+  | "publish"
+  | "delete"
+  | "pDelete"
+  | "sPub"
+  | "event"
+  | "lsEvent";
+
+export type TrafficEntry = {
+  id: number;
+  time: number;
+  kind: TrafficKind;
+  key: string;
+  value?: Value;
+};
+
+export type ConnectionRecord = {
+  time: number;
+  state: ConnectionState;
+  status: ConnectionStatus;
+  address: string | undefined;
+};
+
+export type SubscriptionRecord = {
+  transactionId: TransactionID;
+  kind: "subscribe" | "pSubscribe" | "subscribeLs";
+  key: Key | RequestPattern;
+  unique: boolean;
+  liveOnly: boolean;
+  owner: string | undefined;
+  since: number;
+};
+
+export type WbMonitor = {
+  record: (kind: TrafficKind, key: string, value?: Value) => void;
+  recordConnection: (
+    state: ConnectionState,
+    status: ConnectionStatus,
+    address: string | undefined
+  ) => void;
+  traffic: () => TrafficEntry[];
+  history: () => ConnectionRecord[];
+  subscriptions: () => SubscriptionRecord[];
+  track: (
+    transactionId: TransactionID,
+    kind: SubscriptionRecord["kind"],
+    key: string,
+    unique?: boolean,
+    liveOnly?: boolean
+  ) => TransactionID;
+  untrack: (transactionId: TransactionID) => void;
+  clear: () => void;
+  subscribe: (listener: () => void) => () => void;
+  owner: () => string | undefined;
+  withOwner: <R>(owner: string | undefined, action: () => R) => R;
+};
+
+const MAX_TRAFFIC = 500;
+const MAX_HISTORY = 50;
+
+export function createMonitor(): WbMonitor {
+  const listeners = new Set<() => void>();
+  const subscriptions = new Map<TransactionID, SubscriptionRecord>();
+  let traffic: TrafficEntry[] = [];
+  let history: ConnectionRecord[] = [];
+  let nextId = 0;
+  let currentOwner: string | undefined;
+
+  const changed = () => listeners.forEach((listener) => listener());
+
+  const monitor: WbMonitor = {
+    record: (kind: TrafficKind, key: string, value?: Value) => {
+      traffic = [
+        ...traffic.slice(-(MAX_TRAFFIC - 1)),
+        { id: ++nextId, time: Date.now(), kind, key, value },
+      ];
+      changed();
+    },
+    recordConnection: (
+      state: ConnectionState,
+      status: ConnectionStatus,
+      address: string | undefined
+    ) => {
+      history = [
+        ...history.slice(-(MAX_HISTORY - 1)),
+        { time: Date.now(), state, status, address },
+      ];
+      changed();
+    },
+    traffic: () => traffic,
+    history: () => history,
+    subscriptions: () => [...subscriptions.values()],
+    track: (
+      transactionId: TransactionID,
+      kind: SubscriptionRecord["kind"],
+      key: string,
+      unique?: boolean,
+      liveOnly?: boolean
+    ) => {
+      subscriptions.set(transactionId, {
+        transactionId,
+        kind,
+        key,
+        unique: unique || false,
+        liveOnly: liveOnly || false,
+        owner: currentOwner,
+        since: Date.now(),
+      });
+      changed();
+      return transactionId;
+    },
+    untrack: (transactionId: TransactionID) => {
+      if (subscriptions.delete(transactionId)) {
+        changed();
+      }
+    },
+    clear: () => {
+      traffic = [];
+      changed();
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    owner: componentName,
+    withOwner: <R>(owner: string | undefined, action: () => R) => {
+      const previous = currentOwner;
+      currentOwner = owner;
+      try {
+        return action();
+      } finally {
+        currentOwner = previous;
+      }
+    },
+  };
+
+  return monitor;
+}
+
+// the component name is taken from the render stack, which is only meaningful
+// in development builds
+function componentName(): string | undefined {
+  const stack = new Error().stack;
+  if (!stack) {
+    return undefined;
+  }
+  for (const line of stack.split("\n").slice(1)) {
+    const match =
+      /at (?:Object\.)?([A-Z][\w$]*) \(/.exec(line) ||
+      /^([A-Z][\w$]*)@/.exec(line);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,173 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Key,
+  LsCallback,
+  PStateCallback,
+  Rejection,
+  RequestPattern,
+  StateCallback,
+  TransactionID,
+  Value,
+  WbCache,
+  Worterbuch,
+} from "worterbuch-js";
+import type { SubscriptionRecord, TrafficKind, WbMonitor } from "./monitor";
+
+// wraps the connection once for its whole lifetime; whether traffic is
+// recorded is decided per call, so attaching or detaching a monitor does not
+// change the identity of the connection handed out to hooks
+export function observeConnection(
+  conn: Worterbuch,
+  monitor: () => WbMonitor | undefined
+): Worterbuch {
+  const record = (kind: TrafficKind, key: string, value?: Value) =>
+    monitor()?.record(kind, key, value);
+
+  const track = (
+    transactionId: TransactionID,
+    kind: SubscriptionRecord["kind"],
+    key: string,
+    unique?: boolean,
+    liveOnly?: boolean
+  ) => {
+    monitor()?.track(transactionId, kind, key, unique, liveOnly);
+    return transactionId;
+  };
+
+  const untrack = (transactionId: TransactionID) =>
+    monitor()?.untrack(transactionId);
+
+  const instrumentCache = (cache: WbCache): WbCache => ({
+    ...cache,
+    set: <T extends Value>(key: Key, value: T) => {
+      record("set", key, value);
+      return cache.set(key, value);
+    },
+    delete: <T extends Value>(key: Key) => {
+      record("delete", key);
+      return cache.delete<T>(key);
+    },
+  });
+
+  const overrides: Partial<Worterbuch> = {
+    set: <T extends Value>(key: Key, value: T) => {
+      record("set", key, value);
+      return conn.set(key, value);
+    },
+    publish: <T extends Value>(key: Key, value: T) => {
+      record("publish", key, value);
+      return conn.publish(key, value);
+    },
+    delete: <T extends Value>(key: Key) => {
+      record("delete", key);
+      return conn.delete<T>(key);
+    },
+    pDelete: <T extends Value>(pattern: RequestPattern, quiet?: boolean) => {
+      record("pDelete", pattern);
+      return conn.pDelete<T>(pattern, quiet);
+    },
+    sPub: <T extends Value>(tid: TransactionID, value: T) => {
+      record("sPub", `#${tid}`, value);
+      return conn.sPub(tid, value);
+    },
+    subscribe: <T extends Value>(
+      key: Key,
+      callback: StateCallback<T>,
+      unique?: boolean,
+      liveOnly?: boolean,
+      onerror?: Rejection
+    ) =>
+      track(
+        conn.subscribe<T>(
+          key,
+          (e) => {
+            record("event", key, e.value ?? e.deleted);
+            callback(e);
+          },
+          unique,
+          liveOnly,
+          onerror
+        ),
+        "subscribe",
+        key,
+        unique,
+        liveOnly
+      ),
+    pSubscribe: <T extends Value>(
+      pattern: RequestPattern,
+      callback: PStateCallback<T>,
+      unique?: boolean,
+      liveOnly?: boolean,
+      onerror?: Rejection
+    ) =>
+      track(
+        conn.pSubscribe<T>(
+          pattern,
+          (e) => {
+            e.keyValuePairs?.forEach(({ key, value }) =>
+              record("event", key, value)
+            );
+            e.deleted?.forEach(({ key }) => record("event", key));
+            callback(e);
+          },
+          unique,
+          liveOnly,
+          onerror
+        ),
+        "pSubscribe",
+        pattern,
+        unique,
+        liveOnly
+      ),
+    unsubscribe: (tid: TransactionID) => {
+      untrack(tid);
+      conn.unsubscribe(tid);
+    },
+    subscribeLs: (
+      parent: Key | undefined,
+      callback: LsCallback,
+      onerror?: Rejection
+    ) =>
+      track(
+        conn.subscribeLs(
+          parent,
+          (children) => {
+            record("lsEvent", parent ?? "", children);
+            callback(children);
+          },
+          onerror
+        ),
+        "subscribeLs",
+        parent ?? ""
+      ),
+    unsubscribeLs: (tid: TransactionID) => {
+      untrack(tid);
+      conn.unsubscribeLs(tid);
+    },
+    cached: () => instrumentCache(conn.cached()),
+  };
+
+  // everything that is not overridden, including assignments to handlers like
+  // onclose, goes straight through to the client
+  return new Proxy(conn, {
+    get: (target, property, receiver) =>
+      Object.prototype.hasOwnProperty.call(overrides, property)
+        ? overrides[property as keyof Worterbuch]
+        : Reflect.get(target, property, receiver),
+  });
+}
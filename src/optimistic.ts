@@ -0,0 +1,93 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Value } from "worterbuch-js";
+import React from "react";
+import { useWb } from "./context";
+import { toError, useSubscribeResult } from "./result";
+
+export type WriteOptions<T = Value> = {
+  onError?: (error: Error, value: T | undefined) => void;
+};
+
+export function useIsPending(key: string, connection?: string): boolean {
+  const wb = useWb(connection);
+  const pendingWrites = wb.pendingWrites;
+  const [pending, setPending] = React.useState(() =>
+    pendingWrites.isPending(key)
+  );
+  React.useEffect(() => {
+    setPending(pendingWrites.isPending(key));
+    return pendingWrites.subscribe((k) => {
+      if (k === key) {
+        setPending(pendingWrites.isPending(key));
+      }
+    });
+  }, [key, pendingWrites]);
+  return pending;
+}
+
+export function useOptimisticSet<T extends Value>(
+  key: string,
+  options?: WriteOptions<T>,
+  connection?: string
+): [T | undefined, (value: T) => void, boolean] {
+  const wb = useWb(connection);
+  const server = useSubscribeResult<T>(
+    key,
+    undefined,
+    undefined,
+    undefined,
+    connection
+  );
+  const pending = useIsPending(key, connection);
+  const [local, setLocal] = React.useState<{ value: T } | undefined>();
+  const inFlightRef = React.useRef(0);
+  const onErrorRef = React.useRef(options?.onError);
+  onErrorRef.current = options?.onError;
+
+  React.useEffect(() => {
+    if (inFlightRef.current === 0) {
+      setLocal(undefined);
+    }
+  }, [server.lastUpdated, key]);
+
+  const set = React.useCallback(
+    (value: T) => {
+      const conn = wb.connection;
+      if (!conn) {
+        return;
+      }
+      inFlightRef.current++;
+      setLocal({ value });
+      wb.pendingWrites.track(key, conn.set<T>(key, value)).then(
+        () => {
+          inFlightRef.current--;
+        },
+        (e) => {
+          inFlightRef.current--;
+          if (inFlightRef.current === 0) {
+            setLocal(undefined);
+          }
+          onErrorRef.current?.(toError(e), value);
+        }
+      );
+    },
+    [key, wb.connection, wb.pendingWrites]
+  );
+
+  return [local ? local.value : server.value, set, pending];
+}
@@ -0,0 +1,211 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key, Value, WbError, Worterbuch } from "worterbuch-js";
+import { browserStorage } from "./util";
+import { Logger, consoleLogger } from "./logger";
+
+export type QueuedWrite = {
+  op: "set" | "publish" | "delete";
+  key: Key;
+  value?: Value;
+  timestamp: number;
+};
+
+export type OutboxStorage = {
+  load: () => Promise<QueuedWrite[]>;
+  save: (writes: QueuedWrite[]) => Promise<void>;
+};
+
+export type OutboxOptions = {
+  storage?: OutboxStorage;
+  collapse?: boolean;
+};
+
+export type Outbox = {
+  enqueue: (write: Omit<QueuedWrite, "timestamp">) => void;
+  writes: () => QueuedWrite[];
+  discard: (key?: Key) => void;
+  attach: (conn: Worterbuch | undefined) => void;
+  subscribe: (listener: () => void) => () => void;
+};
+
+export function createOutbox(
+  options: OutboxOptions,
+  logger: Logger = consoleLogger
+): Outbox {
+  const collapse = options.collapse !== false;
+  const listeners = new Set<() => void>();
+  let queue: QueuedWrite[] = [];
+  let connection: Worterbuch | undefined;
+
+  const changed = () => {
+    options.storage?.save(queue).catch((e) => {
+      logger.error("Could not persist queued writes:", e);
+    });
+    listeners.forEach((listener) => listener());
+  };
+
+  const add = (write: QueuedWrite) => {
+    if (collapse && write.op !== "publish") {
+      queue = queue.filter((w) => w.op === "publish" || w.key !== write.key);
+    }
+    queue.push(write);
+  };
+
+  const remove = (write: QueuedWrite) => {
+    const index = queue.indexOf(write);
+    if (index >= 0) {
+      queue.splice(index, 1);
+      changed();
+    }
+  };
+
+  const send = (conn: Worterbuch, write: QueuedWrite) => {
+    const request: Promise<unknown> =
+      write.op === "set"
+        ? conn.set(write.key, write.value ?? null)
+        : write.op === "publish"
+        ? conn.publish(write.key, write.value ?? null)
+        : conn.delete(write.key);
+    request.then(
+      () => remove(write),
+      (e) => {
+        if (e instanceof WbError) {
+          // the server refused the write, sending it again would not help
+          logger.error(`Server rejected queued ${write.op} of`, write.key, e);
+          remove(write);
+        } else {
+          // the write stays queued and is replayed on the next reconnect
+          logger.error(`Could not replay queued ${write.op} of`, write.key, e);
+        }
+      }
+    );
+  };
+
+  const replay = () => {
+    const conn = connection;
+    if (conn && queue.length > 0) {
+      logger.info(`Replaying ${queue.length} queued write(s) …`);
+      [...queue].forEach((write) => send(conn, write));
+    }
+  };
+
+  const loaded = options.storage
+    ? options.storage
+        .load()
+        .then((persisted) => {
+          const pending = queue;
+          queue = [];
+          persisted.forEach(add);
+          pending.forEach(add);
+          changed();
+        })
+        .catch((e) => {
+          logger.error("Could not load queued writes:", e);
+        })
+    : Promise.resolve();
+
+  return {
+    enqueue: (write: Omit<QueuedWrite, "timestamp">) => {
+      add({ ...write, timestamp: Date.now() });
+      changed();
+    },
+    writes: () => [...queue],
+    discard: (key?: Key) => {
+      queue = key === undefined ? [] : queue.filter((w) => w.key !== key);
+      changed();
+    },
+    attach: (conn: Worterbuch | undefined) => {
+      connection = conn;
+      if (conn) {
+        loaded.then(() => {
+          if (connection === conn) {
+            replay();
+          }
+        });
+      }
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export function localStorageOutbox(
+  storageKey = "worterbuch.react.outbox"
+): OutboxStorage {
+  return {
+    load: async () => {
+      const stored = browserStorage()?.getItem(storageKey);
+      return stored ? JSON.parse(stored) : [];
+    },
+    save: async (writes: QueuedWrite[]) => {
+      browserStorage()?.setItem(storageKey, JSON.stringify(writes));
+    },
+  };
+}
+
+export function indexedDbOutbox(
+  storageKey = "worterbuch.react.outbox",
+  dbName = "worterbuch-react"
+): OutboxStorage {
+  const storeName = "outbox";
+
+  const open = () =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+  const transaction = async <R>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest
+  ) => {
+    const db = await open();
+    try {
+      return await new Promise<R>((resolve, reject) => {
+        const request = action(
+          db.transaction(storeName, mode).objectStore(storeName)
+        );
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    } finally {
+      db.close();
+    }
+  };
+
+  return {
+    load: async () =>
+      (await transaction<QueuedWrite[] | undefined>("readonly", (store) =>
+        store.get(storageKey)
+      )) || [],
+    save: async (writes: QueuedWrite[]) => {
+      await transaction("readwrite", (store) => store.put(writes, storageKey));
+    },
+  };
+}
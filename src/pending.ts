@@ -0,0 +1,56 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key } from "worterbuch-js";
+
+export type PendingWrites = {
+  track: <R>(key: Key, write: Promise<R>) => Promise<R>;
+  isPending: (key: Key) => boolean;
+  subscribe: (listener: (key: Key) => void) => () => void;
+};
+
+export function createPendingWrites(): PendingWrites {
+  const pending = new Map<Key, number>();
+  const listeners = new Set<(key: Key) => void>();
+
+  const update = (key: Key, delta: number) => {
+    const count = (pending.get(key) || 0) + delta;
+    if (count > 0) {
+      pending.set(key, count);
+    } else {
+      pending.delete(key);
+    }
+    listeners.forEach((listener) => listener(key));
+  };
+
+  return {
+    track: <R>(key: Key, write: Promise<R>) => {
+      update(key, 1);
+      write.then(
+        () => update(key, -1),
+        () => update(key, -1)
+      );
+      return write;
+    },
+    isPending: (key: Key) => pending.has(key),
+    subscribe: (listener: (key: Key) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
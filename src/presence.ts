@@ -0,0 +1,135 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key, KeyValuePairs, Value, Worterbuch } from "worterbuch-js";
+import React from "react";
+import { useWb } from "./context";
+import { usePSubscribe } from "./hooks";
+import { updateWill } from "./util";
+
+export type PresenceOptions = {
+  // "graveGoods" removes the entry on disconnect, "lastWill" sets it to null
+  cleanup?: "graveGoods" | "lastWill";
+};
+
+export type PresenceEntry<T> = {
+  clientId: string;
+  key: Key;
+  info: T;
+};
+
+function register(conn: Worterbuch, action: () => Promise<unknown>) {
+  return updateWill(conn, action).catch(() => undefined);
+}
+
+function addCleanup(
+  conn: Worterbuch,
+  key: Key,
+  cleanup: PresenceOptions["cleanup"]
+) {
+  return register(conn, async () => {
+    if (cleanup === "lastWill") {
+      const lastWill = await conn.lastWill<Value>();
+      conn.setLastWill([
+        ...lastWill.filter((kvp) => kvp.key !== key),
+        { key, value: null },
+      ]);
+    } else {
+      const graveGoods = await conn.graveGoods();
+      if (!graveGoods.includes(key)) {
+        conn.setGraveGoods([...graveGoods, key]);
+      }
+    }
+  });
+}
+
+function removeCleanup(
+  conn: Worterbuch,
+  key: Key,
+  cleanup: PresenceOptions["cleanup"]
+) {
+  return register(conn, async () => {
+    if (cleanup === "lastWill") {
+      const lastWill: KeyValuePairs<Value> = await conn.lastWill<Value>();
+      conn.setLastWill(lastWill.filter((kvp) => kvp.key !== key));
+    } else {
+      const graveGoods = await conn.graveGoods();
+      conn.setGraveGoods(graveGoods.filter((k) => k !== key));
+    }
+  });
+}
+
+export function usePresence<T extends Value>(
+  namespace: string,
+  info: T,
+  options?: PresenceOptions,
+  connection?: string
+): PresenceEntry<T>[] {
+  const wb = useWb(connection);
+  const cleanup = options?.cleanup || "graveGoods";
+  const conn = wb.connection;
+  // a new connection gets a new client ID, so the entry moves with it
+  const clientId = conn?.clientId();
+  const key = clientId ? `${namespace}/${clientId}` : undefined;
+
+  const infoRef = React.useRef(info);
+  infoRef.current = info;
+
+  const { reviseWill } = wb;
+  React.useEffect(() => {
+    if (!conn || !key) {
+      return;
+    }
+    addCleanup(conn, key, cleanup).then(() => {
+      reviseWill();
+      conn.set(key, infoRef.current).catch(() => undefined);
+    });
+    return () => {
+      removeCleanup(conn, key, cleanup).then(reviseWill);
+      conn.delete(key).catch(() => undefined);
+    };
+  }, [cleanup, conn, key, reviseWill]);
+
+  const serialized = JSON.stringify(info);
+  const registeredRef = React.useRef(serialized);
+  React.useEffect(() => {
+    if (conn && key && registeredRef.current !== serialized) {
+      conn.set(key, infoRef.current).catch(() => undefined);
+    }
+    registeredRef.current = serialized;
+  }, [conn, key, serialized]);
+
+  const present = usePSubscribe<T>(
+    `${namespace}/?`,
+    undefined,
+    undefined,
+    connection
+  );
+
+  return React.useMemo(() => {
+    const others: PresenceEntry<T>[] = [];
+    present.forEach((value, k) => {
+      if (k !== key && value !== null && value !== undefined) {
+        others.push({
+          clientId: k.substring(namespace.length + 1),
+          key: k,
+          info: value,
+        });
+      }
+    });
+    return others;
+  }, [key, namespace, present]);
+}
@@ -0,0 +1,218 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Value } from "worterbuch-js";
+import React from "react";
+import {
+  PublishStreamOptions,
+  usePublish,
+  usePublishStream,
+  useSet,
+} from "./hooks";
+
+export type RateLimited<T> = ((value: T) => void) & {
+  flush: () => void;
+  cancel: () => void;
+};
+
+type Scheduled<T> = {
+  pending: React.MutableRefObject<{ value: T } | undefined>;
+  lastSent: React.MutableRefObject<number>;
+  schedule: (delay: number) => void;
+  flush: () => void;
+  cancel: () => void;
+};
+
+function useScheduled<T>(send: (value: T) => void): Scheduled<T> {
+  const sendRef = React.useRef(send);
+  sendRef.current = send;
+  const pending = React.useRef<{ value: T } | undefined>();
+  const lastSent = React.useRef(0);
+  const cancelTimer = React.useRef<(() => void) | undefined>();
+
+  const stop = React.useCallback(() => {
+    cancelTimer.current?.();
+    cancelTimer.current = undefined;
+  }, []);
+
+  const flush = React.useCallback(() => {
+    stop();
+    const next = pending.current;
+    pending.current = undefined;
+    if (next) {
+      lastSent.current = Date.now();
+      sendRef.current(next.value);
+    }
+  }, [stop]);
+
+  const cancel = React.useCallback(() => {
+    stop();
+    pending.current = undefined;
+  }, [stop]);
+
+  const schedule = React.useCallback(
+    (delay: number) => {
+      stop();
+      if (delay < 0) {
+        if (typeof requestAnimationFrame === "function") {
+          const frame = requestAnimationFrame(flush);
+          cancelTimer.current = () => cancelAnimationFrame(frame);
+          return;
+        }
+        delay = 16;
+      }
+      const timeout = setTimeout(flush, delay);
+      cancelTimer.current = () => clearTimeout(timeout);
+    },
+    [flush, stop]
+  );
+
+  // deliver whatever is still pending when the component unmounts
+  React.useEffect(() => flush, [flush]);
+
+  return { pending, lastSent, schedule, flush, cancel };
+}
+
+function limited<T>(
+  call: (value: T) => void,
+  flush: () => void,
+  cancel: () => void
+): RateLimited<T> {
+  return Object.assign(call, { flush, cancel });
+}
+
+export function useThrottled<T>(
+  send: (value: T) => void,
+  interval: number
+): RateLimited<T> {
+  const { pending, lastSent, schedule, flush, cancel } = useScheduled(send);
+  return React.useMemo(
+    () =>
+      limited(
+        (value: T) => {
+          pending.current = { value };
+          const wait = lastSent.current + interval - Date.now();
+          if (wait <= 0) {
+            flush();
+          } else {
+            schedule(wait);
+          }
+        },
+        flush,
+        cancel
+      ),
+    [pending, lastSent, interval, schedule, flush, cancel]
+  );
+}
+
+export function useDebounced<T>(
+  send: (value: T) => void,
+  delay: number
+): RateLimited<T> {
+  const { pending, schedule, flush, cancel } = useScheduled(send);
+  return React.useMemo(
+    () =>
+      limited(
+        (value: T) => {
+          pending.current = { value };
+          schedule(delay);
+        },
+        flush,
+        cancel
+      ),
+    [pending, delay, schedule, flush, cancel]
+  );
+}
+
+export function useCoalesced<T>(send: (value: T) => void): RateLimited<T> {
+  const { pending, schedule, flush, cancel } = useScheduled(send);
+  return React.useMemo(
+    () =>
+      limited(
+        (value: T) => {
+          const framePending = pending.current !== undefined;
+          pending.current = { value };
+          if (!framePending) {
+            schedule(-1);
+          }
+        },
+        flush,
+        cancel
+      ),
+    [pending, schedule, flush, cancel]
+  );
+}
+
+export function useThrottledSet<T extends Value>(
+  key: string,
+  interval: number,
+  connection?: string
+): RateLimited<T> {
+  return useThrottled(useSet<T>(key, undefined, connection), interval);
+}
+
+export function useDebouncedSet<T extends Value>(
+  key: string,
+  delay: number,
+  connection?: string
+): RateLimited<T> {
+  return useDebounced(useSet<T>(key, undefined, connection), delay);
+}
+
+export function useCoalescedSet<T extends Value>(
+  key: string,
+  connection?: string
+): RateLimited<T> {
+  return useCoalesced(useSet<T>(key, undefined, connection));
+}
+
+export function useThrottledPublish<T extends Value>(
+  key: string,
+  interval: number,
+  connection?: string
+): RateLimited<T> {
+  return useThrottled(usePublish<T>(key, connection), interval);
+}
+
+export function useDebouncedPublish<T extends Value>(
+  key: string,
+  delay: number,
+  connection?: string
+): RateLimited<T> {
+  return useDebounced(usePublish<T>(key, connection), delay);
+}
+
+export function useCoalescedPublish<T extends Value>(
+  key: string,
+  connection?: string
+): RateLimited<T> {
+  return useCoalesced(usePublish<T>(key, connection));
+}
+
+export function useCoalescedPublishStream<T extends Value>(
+  key: string,
+  options?: PublishStreamOptions,
+  connection?: string
+): RateLimited<T> {
+  // effects are cleaned up in the order they were declared, so the coalescer
+  // has to come first to flush its last value before the stream is torn down
+  const sendRef = React.useRef<(value: T) => void>();
+  const coalesced = useCoalesced(
+    React.useCallback((value: T) => sendRef.current?.(value), [])
+  );
+  sendRef.current = usePublishStream<T>(key, options, connection);
+  return coalesced;
+}
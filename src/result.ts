@@ -0,0 +1,179 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Children,
+  Err,
+  KeyValuePairs,
+  RequestPattern,
+  Value,
+  WbError,
+} from "worterbuch-js";
+import React from "react";
+import { useOwnerRef, useWb, withOwner } from "./context";
+
+export type ResultStatus = "idle" | "loading" | "ready" | "error" | "stale";
+
+export type WbResult<T> = {
+  value: T | undefined;
+  status: ResultStatus;
+  error: Error | undefined;
+  lastUpdated: number | undefined;
+};
+
+export function toError(e: unknown): Error {
+  if (e instanceof Error) {
+    return e;
+  }
+  if (e && typeof e === "object" && "errorCode" in e) {
+    return new WbError(e as Err);
+  }
+  return new Error(String(e));
+}
+
+function initialResult<T>(value: T | undefined): WbResult<T> {
+  return { value, status: "idle", error: undefined, lastUpdated: undefined };
+}
+
+function loading<T>(result: WbResult<T>): WbResult<T> {
+  return { ...result, status: "loading", error: undefined };
+}
+
+function ready<T>(value: T | undefined): WbResult<T> {
+  return { value, status: "ready", error: undefined, lastUpdated: Date.now() };
+}
+
+function failed<T>(result: WbResult<T>, e: unknown): WbResult<T> {
+  return { ...result, status: "error", error: toError(e) };
+}
+
+function disconnected<T>(result: WbResult<T>): WbResult<T> {
+  if (result.lastUpdated === undefined) {
+    return { ...result, status: "idle" };
+  }
+  return { ...result, status: "stale" };
+}
+
+function useRequestResult<T>(
+  request: (() => Promise<T | undefined>) | undefined
+): WbResult<T> {
+  const [result, setResult] = React.useState<WbResult<T>>(
+    initialResult<T>(undefined)
+  );
+  React.useEffect(() => {
+    if (!request) {
+      setResult(disconnected);
+      return;
+    }
+    let cancelled = false;
+    setResult(loading);
+    request()
+      .then((value) => {
+        if (!cancelled) {
+          setResult(ready(value));
+        }
+      })
+      .catch((e) => {
+        if (!cancelled) {
+          setResult((r) => failed(r, e));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [request]);
+  return result;
+}
+
+export function useGetOnceResult<T extends Value>(
+  key: string,
+  connection?: string
+): WbResult<T> {
+  const wb = useWb(connection);
+  const conn = wb.connection;
+  const request = React.useMemo(
+    () => (conn ? () => conn.get<T>(key) : undefined),
+    [conn, key]
+  );
+  return useRequestResult(request);
+}
+
+export function usePGetOnceResult<T extends Value>(
+  pattern: RequestPattern,
+  connection?: string
+): WbResult<KeyValuePairs<T>> {
+  const wb = useWb(connection);
+  const conn = wb.connection;
+  const request = React.useMemo(
+    () => (conn ? () => conn.pGet<T>(pattern) : undefined),
+    [conn, pattern]
+  );
+  return useRequestResult(request);
+}
+
+export function useLsOnceResult(
+  parent: string | undefined,
+  connection?: string
+): WbResult<Children> {
+  const wb = useWb(connection);
+  const conn = wb.connection;
+  const request = React.useMemo(
+    () => (conn ? () => conn.ls(parent) : undefined),
+    [conn, parent]
+  );
+  return useRequestResult(request);
+}
+
+export function useSubscribeResult<T extends Value>(
+  key: string,
+  initialValue?: T,
+  unique?: boolean,
+  liveOnly?: boolean,
+  connection?: string
+): WbResult<T> {
+  const wb = useWb(connection);
+  const ownerRef = useOwnerRef(wb);
+  const [result, setResult] = React.useState<WbResult<T>>(() =>
+    initialResult(initialValue)
+  );
+  React.useEffect(() => {
+    const conn = wb.connection;
+    if (conn) {
+      setResult(loading);
+      return withOwner(wb.monitor, ownerRef.current, () =>
+        wb.subscriptions.subscribe<T>(
+          conn,
+          key,
+          unique,
+          liveOnly,
+          (value) => setResult(ready(value)),
+          (e) => setResult((r) => failed(r, e))
+        )
+      );
+    } else {
+      setResult(disconnected);
+    }
+  }, [
+    key,
+    liveOnly,
+    ownerRef,
+    unique,
+    wb.connection,
+    wb.monitor,
+    wb.subscriptions,
+  ]);
+  return result;
+}
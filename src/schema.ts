@@ -0,0 +1,168 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key, Value } from "worterbuch-js";
+import React from "react";
+import { useWb } from "./context";
+import { usePSubscribe, useSet, useSubscribe } from "./hooks";
+import { Logger } from "./logger";
+import { deepEqual, matches } from "./util";
+
+type Expand<K extends string> =
+  K extends `${infer Head}{${string}}${infer Tail}`
+    ? `${Head}${string}${Expand<Tail>}`
+    : K;
+
+type Wildcards<K extends string> =
+  K extends `${infer Head}{${string}}${infer Tail}`
+    ? `${Head}?${Wildcards<Tail>}`
+    : K;
+
+export type SchemaKey<S> = {
+  [K in keyof S & string]: Expand<K>;
+}[keyof S & string];
+
+export type SchemaPattern<S> =
+  | SchemaKey<S>
+  | {
+      [K in keyof S & string]: Wildcards<K>;
+    }[keyof S & string];
+
+export type SchemaValue<S, K extends string> = {
+  [T in keyof S & string]: K extends Expand<T> ? S[T] : never;
+}[keyof S & string];
+
+export type SchemaValidators<S> = {
+  [K in keyof S]?: (value: Value) => boolean;
+};
+
+export type SchemaViolation = {
+  key: Key;
+  template: string;
+  value: Value;
+};
+
+export type WorterbuchHooksOptions<S> = {
+  validators?: SchemaValidators<S>;
+  onSchemaViolation?: (violation: SchemaViolation) => void;
+};
+
+export function createWorterbuchHooks<S extends { [template: string]: Value }>(
+  options?: WorterbuchHooksOptions<S>
+) {
+  const validators: {
+    [template: string]: ((value: Value) => boolean) | undefined;
+  } = options?.validators || {};
+  const report = (violation: SchemaViolation, logger: Logger) =>
+    options?.onSchemaViolation
+      ? options.onSchemaViolation(violation)
+      : logger.error("Schema violation:", violation);
+
+  const rules = Object.keys(validators).map((template) => ({
+    template,
+    pattern: template.replace(/\{[^}]*\}/g, "?"),
+    validate: validators[template] || (() => true),
+  }));
+
+  const violation = (key: Key, value: Value): SchemaViolation | undefined => {
+    for (const { template, pattern, validate } of rules) {
+      if (matches(pattern, key) && !validate(value)) {
+        return { key, template, value };
+      }
+    }
+    return undefined;
+  };
+
+  function useTypedSubscribe<K extends SchemaKey<S>>(
+    key: K,
+    initialValue?: SchemaValue<S, K>,
+    unique?: boolean,
+    liveOnly?: boolean,
+    connection?: string
+  ): SchemaValue<S, K> | undefined {
+    const wb = useWb(connection);
+    const value = useSubscribe<SchemaValue<S, K>>(
+      key,
+      initialValue,
+      unique,
+      liveOnly,
+      connection
+    );
+    const invalid = React.useMemo(
+      () => (value === undefined ? undefined : violation(key, value)),
+      [key, value]
+    );
+    React.useEffect(() => {
+      if (invalid) {
+        report(invalid, wb.logger);
+      }
+    }, [invalid, wb.logger]);
+    return invalid ? undefined : value;
+  }
+
+  function useTypedSet<K extends SchemaKey<S>>(key: K, connection?: string) {
+    return useSet<SchemaValue<S, K>>(key, undefined, connection);
+  }
+
+  function useTypedPSubscribe<P extends SchemaPattern<S>>(
+    pattern: P,
+    unique?: boolean,
+    liveOnly?: boolean,
+    connection?: string
+  ): Map<Key, SchemaValue<S, P>> {
+    const wb = useWb(connection);
+    const values = usePSubscribe<SchemaValue<S, P>>(
+      pattern,
+      unique,
+      liveOnly,
+      connection
+    );
+    const [valid, invalid] = React.useMemo(() => {
+      const valid = new Map<Key, SchemaValue<S, P>>();
+      const invalid: SchemaViolation[] = [];
+      values.forEach((value, key) => {
+        const v = violation(key, value);
+        if (v) {
+          invalid.push(v);
+        } else {
+          valid.set(key, value);
+        }
+      });
+      return [valid, invalid];
+    }, [values]);
+    // every event carries all matches, a violation is only reported again
+    // once the offending value has changed
+    const reportedRef = React.useRef(new Map<Key, Value>());
+    React.useEffect(() => {
+      const reported = reportedRef.current;
+      const current = new Map<Key, Value>();
+      invalid.forEach((v) => {
+        if (!reported.has(v.key) || !deepEqual(reported.get(v.key), v.value)) {
+          report(v, wb.logger);
+        }
+        current.set(v.key, v.value);
+      });
+      reportedRef.current = current;
+    }, [invalid, wb.logger]);
+    return valid;
+  }
+
+  return {
+    useSubscribe: useTypedSubscribe,
+    useSet: useTypedSet,
+    usePSubscribe: useTypedPSubscribe,
+  };
+}
@@ -0,0 +1,193 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { browserStorage } from "./util";
+
+export type ServerSelectionStorage = {
+  get: (key: string) => string | null | undefined;
+  set: (key: string, value: string) => void;
+};
+
+export type ServerSelectionContext = {
+  // identifies the set of servers, preferences are stored per scope
+  scope: string;
+  storage: ServerSelectionStorage;
+  lastConnected: string | undefined;
+};
+
+// returns the addresses in the order in which they should be tried
+export type ServerSelector = (
+  addresses: string[],
+  context: ServerSelectionContext
+) => string[] | Promise<string[]>;
+
+export type ServerSelection =
+  | "sticky"
+  | "round-robin"
+  | "random"
+  | "latency"
+  | ServerSelector;
+
+export type ServerSelectionOptions = {
+  strategy?: ServerSelection;
+  storage?: ServerSelectionStorage;
+  scope?: string;
+  // time in milliseconds after which a latency probe counts as failed
+  probeTimeout?: number;
+};
+
+const STORAGE_KEY = "worterbuch.react.connected.server";
+
+export const localStorageSelection: ServerSelectionStorage = {
+  get: (key) => browserStorage()?.getItem(key),
+  set: (key, value) => browserStorage()?.setItem(key, value),
+};
+
+export function memorySelectionStorage(): ServerSelectionStorage {
+  const values = new Map<string, string>();
+  return {
+    get: (key) => values.get(key),
+    set: (key, value) => {
+      values.set(key, value);
+    },
+  };
+}
+
+function sticky(
+  addresses: string[],
+  { lastConnected }: ServerSelectionContext
+) {
+  return [...addresses].sort((a, b) =>
+    a === lastConnected ? -1 : b === lastConnected ? 1 : 0
+  );
+}
+
+function roundRobin(
+  addresses: string[],
+  { lastConnected }: ServerSelectionContext
+) {
+  const next = (addresses.indexOf(lastConnected || "") + 1) % addresses.length;
+  return [...addresses.slice(next), ...addresses.slice(0, next)];
+}
+
+function random(addresses: string[]) {
+  const shuffled = [...addresses];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+function probe(address: string, timeout: number): Promise<number> {
+  return new Promise((resolve) => {
+    if (typeof WebSocket === "undefined") {
+      resolve(Infinity);
+      return;
+    }
+    const start = Date.now();
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(address);
+    } catch {
+      // malformed addresses are rejected synchronously
+      resolve(Infinity);
+      return;
+    }
+    const done = (latency: number) => {
+      clearTimeout(timer);
+      socket.onopen = null;
+      socket.onerror = null;
+      socket.close();
+      resolve(latency);
+    };
+    const timer = setTimeout(() => done(Infinity), timeout);
+    socket.onopen = () => done(Date.now() - start);
+    socket.onerror = () => done(Infinity);
+  });
+}
+
+function latency(timeout: number): ServerSelector {
+  return async (addresses) => {
+    const latencies = await Promise.all(
+      addresses.map((address) => probe(address, timeout))
+    );
+    return addresses
+      .map((address, i) => ({ address, latency: latencies[i] }))
+      .sort((a, b) =>
+        a.latency === b.latency ? 0 : a.latency < b.latency ? -1 : 1
+      )
+      .map(({ address }) => address);
+  };
+}
+
+export function createServerSelection(
+  options: ServerSelection | ServerSelectionOptions | undefined
+) {
+  const {
+    strategy = "sticky",
+    storage = localStorageSelection,
+    scope,
+    probeTimeout = 3000,
+  }: ServerSelectionOptions = typeof options === "object"
+    ? options
+    : { strategy: options };
+
+  const selector: ServerSelector =
+    strategy === "sticky"
+      ? sticky
+      : strategy === "round-robin"
+      ? roundRobin
+      : strategy === "random"
+      ? random
+      : strategy === "latency"
+      ? latency(probeTimeout)
+      : strategy;
+
+  const storageKey = (addresses: string[]) =>
+    `${STORAGE_KEY}/${scope ?? [...addresses].sort().join(",")}`;
+
+  // selections persisted before they were scoped are moved to the scoped entry
+  // as long as they belong to the configured servers
+  const legacy = (addresses: string[]) => {
+    const address = storage.get(STORAGE_KEY);
+    if (address && addresses.includes(address)) {
+      storage.set(storageKey(addresses), address);
+      return address;
+    }
+    return undefined;
+  };
+
+  return {
+    select: async (addresses: string[]): Promise<string[]> => {
+      if (addresses.length === 0) {
+        return [];
+      }
+      const key = storageKey(addresses);
+      const lastConnected = storage.get(key) || legacy(addresses);
+      return selector(addresses, {
+        scope: key,
+        storage,
+        lastConnected,
+      });
+    },
+    connected: (addresses: string[], address: string | undefined) => {
+      if (address) {
+        storage.set(storageKey(addresses), address);
+      }
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key, RequestPattern, Value } from "worterbuch-js";
+import React from "react";
+import { useWb } from "./context";
+import { Codec, decodeValue, decodeValues } from "./codec";
+import { matches } from "./util";
+import { Logger } from "./logger";
+
+export type WbSelectorInputs = {
+  keys?: Key[];
+  patterns?: RequestPattern[];
+};
+
+export type WbSelectorInput = {
+  keys: Map<Key, Value | undefined>;
+  patterns: Map<RequestPattern, Map<Key, Value>>;
+};
+
+function initialInput(
+  keys: Key[],
+  patterns: RequestPattern[],
+  snapshot: Map<Key, Value>,
+  codecFor: (key: Key) => Codec<unknown> | undefined,
+  logger: Logger
+): WbSelectorInput {
+  const input: WbSelectorInput = { keys: new Map(), patterns: new Map() };
+  keys.forEach((key) =>
+    input.keys.set(
+      key,
+      decodeValue<Value>(codecFor(key), snapshot.get(key), logger)
+    )
+  );
+  patterns.forEach((pattern) => {
+    const values = new Map<Key, Value>();
+    snapshot.forEach((value, key) => {
+      if (matches(pattern, key)) {
+        values.set(key, value);
+      }
+    });
+    input.patterns.set(pattern, decodeValues<Value>(codecFor, values, logger));
+  });
+  return input;
+}
+
+export function useWbSelector<R>(
+  inputs: WbSelectorInputs,
+  selector: (input: WbSelectorInput) => R,
+  equalityFn: (a: R, b: R) => boolean = Object.is,
+  connection?: string
+): R {
+  const wb = useWb(connection);
+  const [, rerender] = React.useReducer((count: number) => count + 1, 0);
+
+  // inputs are usually passed as literals, so they are compared by content
+  const keysId = (inputs.keys || []).join("\n");
+  const patternsId = (inputs.patterns || []).join("\n");
+
+  const inputRef = React.useRef<WbSelectorInput>();
+  if (!inputRef.current) {
+    inputRef.current = initialInput(
+      inputs.keys || [],
+      inputs.patterns || [],
+      wb.snapshot,
+      wb.codecFor,
+      wb.logger
+    );
+  }
+  const selectorRef = React.useRef(selector);
+  selectorRef.current = selector;
+  const equalityRef = React.useRef(equalityFn);
+  equalityRef.current = equalityFn;
+
+  const resultRef = React.useRef<{ value: R; selector: typeof selector }>();
+  if (!resultRef.current || resultRef.current.selector !== selector) {
+    const value = selector(inputRef.current);
+    const previous = resultRef.current;
+    resultRef.current = {
+      value:
+        previous && equalityFn(previous.value, value) ? previous.value : value,
+      selector,
+    };
+  }
+
+  React.useEffect(() => {
+    const keys = keysId ? keysId.split("\n") : [];
+    const patterns = patternsId ? patternsId.split("\n") : [];
+    const conn = wb.connection;
+    const codecFor = wb.codecFor;
+    const logger = wb.logger;
+    let input = initialInput(keys, patterns, wb.snapshot, codecFor, logger);
+
+    const update = (next: WbSelectorInput) => {
+      input = next;
+      inputRef.current = next;
+      const value = selectorRef.current(next);
+      const previous = resultRef.current;
+      if (!previous || !equalityRef.current(previous.value, value)) {
+        resultRef.current = { value, selector: selectorRef.current };
+        rerender();
+      }
+    };
+    update(input);
+
+    if (!conn) {
+      return;
+    }
+    const unsubscribes = [
+      ...keys.map((key) =>
+        wb.subscriptions.subscribe<Value>(
+          conn,
+          key,
+          undefined,
+          undefined,
+          (value) => {
+            const values = new Map(input.keys);
+            values.set(key, decodeValue<Value>(codecFor(key), value, logger));
+            update({ keys: values, patterns: input.patterns });
+          }
+        )
+      ),
+      ...patterns.map((pattern) =>
+        wb.subscriptions.pSubscribe<Value>(
+          conn,
+          pattern,
+          undefined,
+          undefined,
+          (matched) => {
+            const values = new Map(input.patterns);
+            values.set(pattern, decodeValues<Value>(codecFor, matched, logger));
+            update({ keys: input.keys, patterns: values });
+          }
+        )
+      ),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [
+    keysId,
+    patternsId,
+    wb.codecFor,
+    wb.connection,
+    wb.logger,
+    wb.snapshot,
+    wb.subscriptions,
+  ]);
+
+  return resultRef.current.value;
+}
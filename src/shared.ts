@@ -0,0 +1,636 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Key,
+  KeyValuePairs,
+  TransactionID,
+  Value,
+  WbCache,
+  Worterbuch,
+} from "worterbuch-js";
+import React from "react";
+import { ConnectionState, ConnectionStatus } from "./context";
+import { updateWill } from "./util";
+
+export type SharedConnectionOptions = {
+  // tabs using the same channel share one connection, the default is derived
+  // from the addresses, a static auth token and the client name, tabs using
+  // a token provider should set it to tell apart different credentials
+  channel?: string;
+};
+
+export type TabRole = "leader" | "follower";
+
+// actions a follower asks the leader to perform on the shared connection
+export type ControlAction = "reconnect" | "rotateAuthToken";
+
+type SharedState = {
+  state: ConnectionState;
+  status: ConnectionStatus;
+  address: string | undefined;
+  clientId: string | undefined;
+};
+
+type Method =
+  | "get"
+  | "pGet"
+  | "delete"
+  | "pDelete"
+  | "set"
+  | "publish"
+  | "sPubInit"
+  | "sPub"
+  | "ls"
+  | "pLs"
+  | "lock"
+  | "acquireLock"
+  | "releaseLock"
+  | "graveGoods"
+  | "lastWill"
+  | "clientName"
+  | "setGraveGoods"
+  | "setLastWill"
+  | "subscribe"
+  | "pSubscribe"
+  | "subscribeLs"
+  | "unsubscribe"
+  | "unsubscribeLs";
+
+type Message =
+  | { type: "hello"; from: string }
+  | { type: "bye"; from: string }
+  | { type: "control"; to: string; action: ControlAction }
+  | ({ type: "state"; leader: string } & SharedState)
+  | {
+      type: "request";
+      from: string;
+      to: string;
+      id: number;
+      method: Method;
+      args: unknown[];
+    }
+  | {
+      type: "response";
+      to: string;
+      id: number;
+      result?: unknown;
+      error?: unknown;
+    }
+  | {
+      type: "event";
+      to: string;
+      sub: number;
+      event?: unknown;
+      error?: unknown;
+    };
+
+type ProxiedError = { proxiedError: { name: string; message: string } };
+
+function transferable(e: unknown): unknown {
+  return e instanceof Error
+    ? { proxiedError: { name: e.name, message: e.message } }
+    : e;
+}
+
+function restored(e: unknown): unknown {
+  const proxied = (e as ProxiedError | undefined)?.proxiedError;
+  if (proxied) {
+    const error = new Error(proxied.message);
+    error.name = proxied.name;
+    return error;
+  }
+  return e;
+}
+
+function tabId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function onPageHide(listener: () => void): () => void {
+  if (typeof window === "undefined") {
+    return () => undefined;
+  }
+  window.addEventListener("pagehide", listener);
+  return () => window.removeEventListener("pagehide", listener);
+}
+
+// a short, stable digest, so secrets do not end up in channel names
+function digest(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// only tabs that would open identical connections may share one
+export function defaultChannel(
+  address: string[],
+  authToken: string | undefined,
+  clientName: string | undefined
+): string {
+  return `worterbuch-react:${address.join(",")}:${digest(authToken || "")}:${
+    clientName || ""
+  }`;
+}
+
+export function sharingSupported(): boolean {
+  return (
+    typeof BroadcastChannel !== "undefined" &&
+    typeof navigator !== "undefined" &&
+    navigator.locks !== undefined
+  );
+}
+
+// the tab holding the lock is the leader, the lock is released automatically
+// when the tab is closed, which hands leadership to the next waiting tab
+export function useLeaderElection(channel: string | undefined): TabRole {
+  const [role, setRole] = React.useState<TabRole>(() =>
+    channel && sharingSupported() ? "follower" : "leader"
+  );
+
+  React.useEffect(() => {
+    if (!channel || !sharingSupported()) {
+      setRole("leader");
+      return;
+    }
+    setRole("follower");
+    const controller = new AbortController();
+    let release: (() => void) | undefined;
+    navigator.locks
+      .request(channel, { signal: controller.signal }, () => {
+        setRole("leader");
+        return new Promise<void>((resolve) => (release = resolve));
+      })
+      .catch(() => undefined);
+    return () => {
+      controller.abort();
+      release?.();
+    };
+  }, [channel]);
+
+  return role;
+}
+
+export type Leader = {
+  update: (conn: Worterbuch | undefined, state: SharedState) => void;
+  close: () => void;
+};
+
+export function createLeader(
+  name: string,
+  control: (action: ControlAction) => void
+): Leader {
+  const id = tabId();
+  const channel = new BroadcastChannel(name);
+  const subscriptions = new Map<
+    string,
+    { follower: string; tid: TransactionID; ls: boolean }
+  >();
+  // grave goods and last will entries registered by followers, they are
+  // applied when the follower tab goes away, like a disconnect would
+  const wills = new Map<
+    string,
+    { graveGoods: Key[]; lastWill: KeyValuePairs<Value> }
+  >();
+  let conn: Worterbuch | undefined;
+  let current: SharedState = {
+    state: ConnectionState.Disconnected,
+    status: ConnectionStatus.Error,
+    address: undefined,
+    clientId: undefined,
+  };
+
+  const post = (msg: Message) => channel.postMessage(msg);
+  const announce = () => post({ type: "state", leader: id, ...current });
+
+  const willOf = (follower: string) => {
+    let will = wills.get(follower);
+    if (!will) {
+      will = { graveGoods: [], lastWill: [] };
+      wills.set(follower, will);
+    }
+    return will;
+  };
+
+  // keys that are still registered by another follower must stay in place
+  const claimed = (follower: string, key: Key) =>
+    [...wills].some(
+      ([other, will]) =>
+        other !== follower &&
+        (will.graveGoods.includes(key) ||
+          will.lastWill.some((kvp) => kvp.key === key))
+    );
+
+  // the leader owns the lists of the shared connection, a follower only
+  // changes its own entries, which are applied to the lists as they are on
+  // the server, so entries of the leader tab and other followers are kept
+  const setGraveGoods = async (
+    conn: Worterbuch,
+    follower: string,
+    graveGoods: Key[]
+  ) => {
+    const will = willOf(follower);
+    const removed = will.graveGoods.filter(
+      (key) => !graveGoods.includes(key) && !claimed(follower, key)
+    );
+    will.graveGoods = [...graveGoods];
+    const stored = await conn.graveGoods();
+    conn.setGraveGoods([
+      ...stored.filter(
+        (key) => !removed.includes(key) && !graveGoods.includes(key)
+      ),
+      ...graveGoods,
+    ]);
+  };
+
+  const setLastWill = async (
+    conn: Worterbuch,
+    follower: string,
+    lastWill: KeyValuePairs<Value>
+  ) => {
+    const will = willOf(follower);
+    const removed = will.lastWill
+      .map(({ key }) => key)
+      .filter(
+        (key) =>
+          !lastWill.some((kvp) => kvp.key === key) && !claimed(follower, key)
+      );
+    will.lastWill = [...lastWill];
+    const stored = await conn.lastWill<Value>();
+    conn.setLastWill([
+      ...stored.filter(
+        ({ key }) =>
+          !removed.includes(key) && !lastWill.some((kvp) => kvp.key === key)
+      ),
+      ...lastWill,
+    ]);
+  };
+
+  const bury = async (conn: Worterbuch, follower: string) => {
+    const will = wills.get(follower);
+    if (!will) {
+      return;
+    }
+    will.graveGoods
+      .filter((key) => !claimed(follower, key))
+      .forEach((key) => conn.delete(key).catch(() => undefined));
+    will.lastWill
+      .filter(({ key }) => !claimed(follower, key))
+      .forEach(({ key, value }) => conn.set(key, value).catch(() => undefined));
+    await setGraveGoods(conn, follower, []);
+    await setLastWill(conn, follower, []);
+    wills.delete(follower);
+  };
+
+  const drop = (follower: string) => {
+    subscriptions.forEach((sub, key) => {
+      if (sub.follower === follower) {
+        subscriptions.delete(key);
+        if (sub.ls) {
+          conn?.unsubscribeLs(sub.tid);
+        } else {
+          conn?.unsubscribe(sub.tid);
+        }
+      }
+    });
+    if (conn) {
+      const current = conn;
+      updateWill(current, () => bury(current, follower)).catch(() => undefined);
+    }
+  };
+
+  const handle = async (
+    conn: Worterbuch,
+    from: string,
+    method: Method,
+    args: unknown[]
+  ): Promise<unknown> => {
+    const emit = (sub: number) => (event: unknown) =>
+      post({ type: "event", to: from, sub, event });
+    const fail = (sub: number) => (error: unknown) =>
+      post({ type: "event", to: from, sub, error: transferable(error) });
+    switch (method) {
+      case "subscribe":
+      case "pSubscribe": {
+        const [key, unique, liveOnly, sub] = args as [
+          Key,
+          boolean,
+          boolean,
+          number
+        ];
+        const tid = conn[method](key, emit(sub), unique, liveOnly, fail(sub));
+        subscriptions.set(`${from}:${sub}`, { follower: from, tid, ls: false });
+        return undefined;
+      }
+      case "subscribeLs": {
+        const [parent, sub] = args as [Key | undefined, number];
+        const tid = conn.subscribeLs(parent, emit(sub), fail(sub));
+        subscriptions.set(`${from}:${sub}`, { follower: from, tid, ls: true });
+        return undefined;
+      }
+      case "unsubscribe":
+      case "unsubscribeLs": {
+        const key = `${from}:${args[0]}`;
+        const sub = subscriptions.get(key);
+        subscriptions.delete(key);
+        if (sub) {
+          conn[sub.ls ? "unsubscribeLs" : "unsubscribe"](sub.tid);
+        }
+        return undefined;
+      }
+      // reads are queued as well, so they see the writes requested before
+      case "graveGoods":
+        return updateWill(conn, async () => willOf(from).graveGoods);
+      case "lastWill":
+        return updateWill(conn, async () => willOf(from).lastWill);
+      case "setGraveGoods": {
+        const [graveGoods] = args as [Key[] | undefined];
+        return updateWill(conn, () =>
+          setGraveGoods(conn, from, graveGoods || [])
+        );
+      }
+      case "setLastWill": {
+        const [lastWill] = args as [KeyValuePairs<Value> | undefined];
+        return updateWill(conn, () => setLastWill(conn, from, lastWill || []));
+      }
+      default:
+        return (conn[method] as (...args: unknown[]) => unknown)(...args);
+    }
+  };
+
+  channel.onmessage = (e: MessageEvent<Message>) => {
+    const msg = e.data;
+    if (msg.type === "hello") {
+      announce();
+    } else if (msg.type === "bye") {
+      drop(msg.from);
+    } else if (msg.type === "control" && msg.to === id) {
+      control(msg.action);
+    } else if (msg.type === "request" && msg.to === id) {
+      const respond = (result?: unknown, error?: unknown) =>
+        post({ type: "response", to: msg.from, id: msg.id, result, error });
+      if (!conn) {
+        respond(undefined, transferable(new Error("not connected")));
+        return;
+      }
+      handle(conn, msg.from, msg.method, msg.args).then(
+        (result) => respond(result),
+        (error) => respond(undefined, transferable(error))
+      );
+    }
+  };
+
+  const resign = () =>
+    post({
+      type: "state",
+      leader: id,
+      ...current,
+      state: ConnectionState.Disconnected,
+      status: ConnectionStatus.Error,
+    });
+  const removePageHide = onPageHide(resign);
+
+  return {
+    update: (next, state) => {
+      if (next !== conn) {
+        // subscriptions and wills of the old connection are gone with it
+        subscriptions.clear();
+        wills.clear();
+      }
+      conn = next;
+      current = state;
+      announce();
+    },
+    close: () => {
+      removePageHide();
+      resign();
+      channel.close();
+    },
+  };
+}
+
+export type Follower = {
+  control: (action: ControlAction) => void;
+  close: () => void;
+};
+
+export function createFollower(
+  name: string,
+  onChange: (conn: Worterbuch | undefined, state: SharedState) => void
+): Follower {
+  const id = tabId();
+  const channel = new BroadcastChannel(name);
+  const pending = new Map<
+    number,
+    { resolve: (result: unknown) => void; reject: (error: unknown) => void }
+  >();
+  const listeners = new Map<
+    number,
+    { event: (event: never) => void; error?: (error: unknown) => void }
+  >();
+  let nextId = 1;
+  let clientName: string | undefined;
+  let leader: string | undefined;
+  let proxy:
+    | { conn: Worterbuch; leader: string; clientId?: string }
+    | undefined;
+
+  const post = (msg: Message) => channel.postMessage(msg);
+
+  const discard = () => {
+    pending.forEach(({ reject }) => reject(new Error("leader changed")));
+    pending.clear();
+    listeners.clear();
+    proxy = undefined;
+  };
+
+  const createProxy = (leader: string, state: SharedState): Worterbuch => {
+    const request = <R>(method: Method, ...args: unknown[]): Promise<R> =>
+      new Promise<R>((resolve, reject) => {
+        const requestId = nextId++;
+        pending.set(requestId, {
+          resolve: resolve as (result: unknown) => void,
+          reject,
+        });
+        post({
+          type: "request",
+          from: id,
+          to: leader,
+          id: requestId,
+          method,
+          args,
+        });
+      });
+
+    const listen = (
+      method: "subscribe" | "pSubscribe" | "subscribeLs",
+      event: (event: never) => void,
+      error: ((error: unknown) => void) | undefined,
+      args: unknown[]
+    ): TransactionID => {
+      const sub = nextId++;
+      listeners.set(sub, { event, error });
+      request(method, ...args, sub).catch((e) => error?.(e));
+      return sub;
+    };
+
+    const unlisten = (method: "unsubscribe" | "unsubscribeLs", sub: number) => {
+      listeners.delete(sub);
+      request(method, sub).catch(() => undefined);
+    };
+
+    const cache: WbCache = {
+      get: (key) => conn.get(key),
+      set: (key, value) => conn.set(key, value),
+      delete: (key) => conn.delete(key),
+      subscribe: <T extends Value>(
+        key: Key,
+        callback: (value: T | undefined) => void
+      ) => conn.subscribe<T>(key, (e) => callback(e.value), true, false),
+      unsubscribe: (tid) => conn.unsubscribe(tid),
+      expire: () => undefined,
+    };
+
+    const conn: Worterbuch = {
+      get: (key) => request("get", key),
+      pGet: (pattern) => request("pGet", pattern),
+      delete: (key) => request("delete", key),
+      pDelete: (pattern, quiet) => request("pDelete", pattern, quiet),
+      set: (key, value) => request("set", key, value),
+      sPubInit: (key) => request("sPubInit", key),
+      sPub: (tid, value) => {
+        request("sPub", tid, value).catch(() => undefined);
+      },
+      publish: (key, value) => request("publish", key, value),
+      subscribe: (key, callback, unique, liveOnly, onerror) =>
+        listen("subscribe", callback, onerror, [key, unique, liveOnly]),
+      pSubscribe: (pattern, callback, unique, liveOnly, onerror) =>
+        listen("pSubscribe", callback, onerror, [pattern, unique, liveOnly]),
+      unsubscribe: (tid) => unlisten("unsubscribe", tid),
+      ls: (parent) => request("ls", parent),
+      pLs: (parent) => request("pLs", parent),
+      subscribeLs: (parent, callback, onerror) =>
+        listen("subscribeLs", callback, onerror, [parent]),
+      unsubscribeLs: (tid) => unlisten("unsubscribeLs", tid),
+      lock: (key) => request("lock", key),
+      acquireLock: (key) => request("acquireLock", key),
+      releaseLock: (key) => request("releaseLock", key),
+      tryLocked: async <T>(key: Key, action: () => T) => {
+        if (await conn.lock(key)) {
+          try {
+            return await action();
+          } finally {
+            await conn.releaseLock(key);
+          }
+        }
+        return undefined;
+      },
+      locked: async <T>(key: Key, action: () => T) => {
+        await conn.acquireLock(key);
+        try {
+          return await action();
+        } finally {
+          await conn.releaseLock(key);
+        }
+      },
+      // the connection belongs to the leader tab, a follower only detaches
+      close: () => undefined,
+      // every tab gets its own client ID, so per client keys like presence
+      // entries of different tabs do not collide
+      clientId: () => (state.clientId ? `${state.clientId}-${id}` : ""),
+      graveGoods: () => request("graveGoods"),
+      lastWill: <T extends Value>() => request<KeyValuePairs<T>>("lastWill"),
+      clientName: () =>
+        clientName !== undefined
+          ? Promise.resolve(clientName)
+          : request("clientName"),
+      setGraveGoods: (graveGoods) => {
+        request("setGraveGoods", graveGoods).catch(() => undefined);
+      },
+      setLastWill: (lastWill) => {
+        request("setLastWill", lastWill).catch(() => undefined);
+      },
+      // the name of the shared connection is set by the leader tab, a follower
+      // only keeps its own
+      setClientName: (name) => {
+        clientName = name;
+      },
+      cached: () => cache,
+      serverAddress: state.address,
+    };
+    return conn;
+  };
+
+  channel.onmessage = (e: MessageEvent<Message>) => {
+    const msg = e.data;
+    if (msg.type === "state") {
+      const { state, status, address, clientId } = msg;
+      const shared = { state, status, address, clientId };
+      leader = msg.leader;
+      if (state !== ConnectionState.Connected) {
+        discard();
+      } else if (
+        !proxy ||
+        proxy.leader !== msg.leader ||
+        proxy.clientId !== clientId
+      ) {
+        // a new leader or a new connection, subscriptions have to be renewed
+        discard();
+        proxy = {
+          conn: createProxy(msg.leader, shared),
+          leader: msg.leader,
+          clientId,
+        };
+      }
+      onChange(proxy?.conn, shared);
+    } else if (msg.type === "response" && msg.to === id) {
+      const request = pending.get(msg.id);
+      pending.delete(msg.id);
+      if (msg.error !== undefined) {
+        request?.reject(restored(msg.error));
+      } else {
+        request?.resolve(msg.result);
+      }
+    } else if (msg.type === "event" && msg.to === id) {
+      const listener = listeners.get(msg.sub);
+      if (msg.error !== undefined) {
+        listener?.error?.(restored(msg.error));
+      } else {
+        listener?.event(msg.event as never);
+      }
+    }
+  };
+
+  const leave = () => post({ type: "bye", from: id });
+  const removePageHide = onPageHide(leave);
+  post({ type: "hello", from: id });
+
+  return {
+    control: (action) => {
+      if (leader) {
+        post({ type: "control", to: leader, action });
+      }
+    },
+    close: () => {
+      removePageHide();
+      leave();
+      discard();
+      channel.close();
+    },
+  };
+}
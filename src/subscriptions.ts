@@ -0,0 +1,257 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Children,
+  Key,
+  RequestPattern,
+  Value,
+  Worterbuch,
+} from "worterbuch-js";
+import { overlaps } from "./util";
+import { Logger, consoleLogger } from "./logger";
+
+export type SubscriptionManager = {
+  subscribe: <T extends Value>(
+    conn: Worterbuch,
+    key: Key,
+    unique: boolean | undefined,
+    liveOnly: boolean | undefined,
+    listener: (value: T | undefined) => void,
+    onerror?: (error: unknown) => void
+  ) => () => void;
+  pSubscribe: <T extends Value>(
+    conn: Worterbuch,
+    pattern: RequestPattern,
+    unique: boolean | undefined,
+    liveOnly: boolean | undefined,
+    listener: (values: Map<Key, T>) => void
+  ) => () => void;
+  subscribeLs: (
+    conn: Worterbuch,
+    parent: Key | undefined,
+    listener: (children: Children) => void
+  ) => () => void;
+  // defers notifications of subscriptions that may be affected by changes to
+  // the given keys or patterns (or of all subscriptions if none are given)
+  // until the returned release function is called, subscriptions opened
+  // directly on the connection or its cache are not held
+  hold: (keys?: (Key | RequestPattern)[]) => () => void;
+};
+
+type Entry = {
+  conn: Worterbuch;
+  // the keys whose changes this subscription receives
+  scope: RequestPattern;
+  listeners: Set<(event: unknown) => void>;
+  latest: { event: unknown } | undefined;
+  failures: Set<(error: unknown) => void>;
+  failure: { error: unknown } | undefined;
+  close: () => void;
+};
+
+type Open = (
+  conn: Worterbuch,
+  emit: (event: unknown) => void,
+  fail: (error: unknown) => void
+) => () => void;
+
+export function createSubscriptionManager(
+  logger: Logger = consoleLogger
+): SubscriptionManager {
+  const entries = new Map<string, Entry>();
+  const deferred = new Set<Entry>();
+  const holds = new Set<{ keys?: (Key | RequestPattern)[] }>();
+
+  const held = (entry: Entry) =>
+    [...holds].some(
+      ({ keys }) => !keys || keys.some((key) => overlaps(key, entry.scope))
+    );
+
+  // one failing listener must not keep the others from being notified
+  const deliver = <E>(listener: (event: E) => void, event: E) => {
+    try {
+      listener(event);
+    } catch (e) {
+      logger.error("Subscription listener failed:", e);
+    }
+  };
+
+  const notify = (entry: Entry) => {
+    const latest = entry.latest;
+    if (latest) {
+      entry.listeners.forEach((l) => deliver(l, latest.event));
+    }
+  };
+
+  const share = (
+    id: string,
+    scope: RequestPattern,
+    conn: Worterbuch,
+    open: Open,
+    listener: (event: unknown) => void,
+    onerror?: (error: unknown) => void
+  ) => {
+    let entry = entries.get(id);
+    if (entry && entry.conn !== conn) {
+      // the entry still belongs to a connection that has since been replaced
+      entry.close();
+      entries.delete(id);
+      entry = undefined;
+    }
+    if (!entry) {
+      const created: Entry = {
+        conn,
+        scope,
+        listeners: new Set(),
+        latest: undefined,
+        failures: new Set(),
+        failure: undefined,
+        close: () => undefined,
+      };
+      created.close = open(
+        conn,
+        (event) => {
+          created.latest = { event };
+          if (held(created)) {
+            deferred.add(created);
+          } else {
+            notify(created);
+          }
+        },
+        (error) => {
+          created.failure = { error };
+          created.failures.forEach((f) => deliver(f, error));
+        }
+      );
+      entries.set(id, created);
+      entry = created;
+    }
+    const shared = entry;
+    const wrapped = (event: unknown) => listener(event);
+    const failed = onerror && ((error: unknown) => onerror(error));
+    shared.listeners.add(wrapped);
+    if (failed) {
+      shared.failures.add(failed);
+    }
+    if (shared.latest) {
+      wrapped(shared.latest.event);
+    }
+    if (failed && shared.failure) {
+      failed(shared.failure.error);
+    }
+    return () => {
+      shared.listeners.delete(wrapped);
+      if (failed) {
+        shared.failures.delete(failed);
+      }
+      if (shared.listeners.size === 0 && entries.get(id) === shared) {
+        shared.close();
+        entries.delete(id);
+      }
+    };
+  };
+
+  const flags = (unique?: boolean, liveOnly?: boolean) =>
+    `${unique ? 1 : 0}${liveOnly ? 1 : 0}`;
+
+  return {
+    subscribe: <T extends Value>(
+      conn: Worterbuch,
+      key: Key,
+      unique: boolean | undefined,
+      liveOnly: boolean | undefined,
+      listener: (value: T | undefined) => void,
+      onerror?: (error: unknown) => void
+    ) =>
+      share(
+        `subscribe:${flags(unique, liveOnly)}:${key}`,
+        key,
+        conn,
+        (conn, emit, fail) => {
+          const tid = conn.subscribe<T>(
+            key,
+            ({ value }) => emit(value),
+            unique,
+            liveOnly,
+            fail
+          );
+          return () => conn.unsubscribe(tid);
+        },
+        listener as (event: unknown) => void,
+        onerror
+      ),
+    pSubscribe: <T extends Value>(
+      conn: Worterbuch,
+      pattern: RequestPattern,
+      unique: boolean | undefined,
+      liveOnly: boolean | undefined,
+      listener: (values: Map<Key, T>) => void
+    ) =>
+      share(
+        `pSubscribe:${flags(unique, liveOnly)}:${pattern}`,
+        pattern,
+        conn,
+        (conn, emit) => {
+          let values = new Map<Key, T>();
+          const tid = conn.pSubscribe<T>(
+            pattern,
+            (e) => {
+              values = new Map(values);
+              e.keyValuePairs?.forEach(({ key, value }) =>
+                values.set(key, value)
+              );
+              e.deleted?.forEach(({ key }) => values.delete(key));
+              emit(values);
+            },
+            unique,
+            liveOnly
+          );
+          return () => conn.unsubscribe(tid);
+        },
+        listener as (event: unknown) => void
+      ),
+    subscribeLs: (
+      conn: Worterbuch,
+      parent: Key | undefined,
+      listener: (children: Children) => void
+    ) =>
+      share(
+        `subscribeLs:${parent ?? ""}`,
+        parent === undefined ? "#" : `${parent}/#`,
+        conn,
+        (conn, emit) => {
+          const tid = conn.subscribeLs(parent, emit);
+          return () => conn.unsubscribeLs(tid);
+        },
+        listener as (event: unknown) => void
+      ),
+    hold: (keys?: (Key | RequestPattern)[]) => {
+      const hold = { keys };
+      holds.add(hold);
+      return () => {
+        if (!holds.delete(hold)) {
+          return;
+        }
+        const ready = [...deferred].filter((entry) => !held(entry));
+        ready.forEach((entry) => {
+          deferred.delete(entry);
+          notify(entry);
+        });
+      };
+    },
+  };
+}
@@ -0,0 +1,156 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  KeyValuePairs,
+  RequestPattern,
+  Value,
+  Worterbuch,
+} from "worterbuch-js";
+import React from "react";
+import { useWb } from "./context";
+import { toError, useSubscribeResult } from "./result";
+
+type CacheEntry =
+  | { status: "pending"; promise: Promise<unknown> }
+  | { status: "ready"; value: unknown }
+  | { status: "error"; error: Error };
+
+// entries are keyed by connection, so a reconnect starts with an empty cache
+const requestCache = new WeakMap<Worterbuch, Map<string, CacheEntry>>();
+
+function read<T>(
+  conn: Worterbuch,
+  cacheKey: string,
+  request: () => Promise<T>
+): T {
+  let entries = requestCache.get(conn);
+  if (!entries) {
+    entries = new Map();
+    requestCache.set(conn, entries);
+  }
+  const entry = entries.get(cacheKey);
+  if (!entry) {
+    const cache = entries;
+    const promise = request().then(
+      (value) => {
+        cache.set(cacheKey, { status: "ready", value });
+      },
+      (e) => {
+        cache.set(cacheKey, { status: "error", error: toError(e) });
+      }
+    );
+    cache.set(cacheKey, { status: "pending", promise });
+    throw promise;
+  }
+  switch (entry.status) {
+    case "pending":
+      throw entry.promise;
+    case "error":
+      // failed requests stay cached so retried renders reach the error
+      // boundary, invalidate the cache before resetting it to send them again
+      throw entry.error;
+    case "ready":
+      return entry.value as T;
+  }
+}
+
+function nextValue<T extends Value>(
+  conn: Worterbuch,
+  key: string,
+  unique: boolean | undefined
+): Promise<T | undefined> {
+  return new Promise((resolve, reject) => {
+    const sub = conn.subscribe<T>(
+      key,
+      ({ value }) => {
+        conn.unsubscribe(sub);
+        resolve(value);
+      },
+      unique,
+      true,
+      (e) => {
+        conn.unsubscribe(sub);
+        reject(e);
+      }
+    );
+  });
+}
+
+export function useSuspenseGet<T extends Value>(
+  key: string,
+  connection?: string
+): T | undefined {
+  const wb = useWb(connection);
+  const conn = wb.connection;
+  if (!conn) {
+    throw wb.whenConnected();
+  }
+  return read(conn, `get:${key}`, () => conn.get<T>(key));
+}
+
+export function useSuspensePGet<T extends Value>(
+  pattern: RequestPattern,
+  connection?: string
+): KeyValuePairs<T> {
+  const wb = useWb(connection);
+  const conn = wb.connection;
+  if (!conn) {
+    throw wb.whenConnected();
+  }
+  return read(conn, `pGet:${pattern}`, () => conn.pGet<T>(pattern));
+}
+
+export function useSuspenseSubscribe<T extends Value>(
+  key: string,
+  unique?: boolean,
+  liveOnly?: boolean,
+  connection?: string
+): T | undefined {
+  const wb = useWb(connection);
+  const conn = wb.connection;
+  if (!conn) {
+    throw wb.whenConnected();
+  }
+  const initialValue = read(
+    conn,
+    `subscribe:${key}:${unique ? "u" : ""}${liveOnly ? "l" : ""}`,
+    () => (liveOnly ? nextValue<T>(conn, key, unique) : conn.get<T>(key))
+  );
+  return useSubscribeResult<T>(key, initialValue, unique, liveOnly, connection)
+    .value;
+}
+
+export function useInvalidateSuspenseCache(
+  connection?: string
+): (prefix?: string) => void {
+  const wb = useWb(connection);
+  return React.useCallback(
+    (prefix?: string) => {
+      const entries = wb.connection && requestCache.get(wb.connection);
+      if (!entries) {
+        return;
+      }
+      [...entries.keys()].forEach((cacheKey) => {
+        const key = cacheKey.substring(cacheKey.indexOf(":") + 1);
+        if (prefix === undefined || key.startsWith(prefix)) {
+          entries.delete(cacheKey);
+        }
+      });
+    },
+    [wb.connection]
+  );
+}
@@ -0,0 +1,160 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key, RequestPattern, Value } from "worterbuch-js";
+import React from "react";
+import { usePSubscribe } from "./hooks";
+import { matchPattern } from "./util";
+
+export type WbTreeNode<T> = {
+  key: Key;
+  segment: string;
+  value: T | undefined;
+  children: Map<string, WbTreeNode<T>>;
+};
+
+export type PatternCapture<T> = {
+  key: Key;
+  captures: string[];
+  value: T;
+};
+
+function literalPrefix(pattern: RequestPattern): string[] {
+  const segments = pattern.split("/");
+  const wildcard = segments.findIndex((s) => s === "?" || s === "#");
+  return wildcard < 0 ? segments : segments.slice(0, wildcard);
+}
+
+function emptyNode<T>(segments: string[]): WbTreeNode<T> {
+  return {
+    key: segments.join("/"),
+    segment: segments.length > 0 ? segments[segments.length - 1] : "",
+    value: undefined,
+    children: new Map(),
+  };
+}
+
+function insert<T>(
+  node: WbTreeNode<T>,
+  path: string[],
+  depth: number,
+  value: T
+): WbTreeNode<T> {
+  if (depth === path.length) {
+    return { ...node, value };
+  }
+  const segment = path[depth];
+  const child =
+    node.children.get(segment) || emptyNode<T>(path.slice(0, depth + 1));
+  const children = new Map(node.children);
+  children.set(segment, insert(child, path, depth + 1, value));
+  return { ...node, children };
+}
+
+function remove<T>(
+  node: WbTreeNode<T>,
+  path: string[],
+  depth: number,
+  root: number
+): WbTreeNode<T> | undefined {
+  let updated = node;
+  if (depth === path.length) {
+    updated = { ...node, value: undefined };
+  } else {
+    const segment = path[depth];
+    const child = node.children.get(segment);
+    if (!child) {
+      return node;
+    }
+    const children = new Map(node.children);
+    const removed = remove(child, path, depth + 1, root);
+    if (removed) {
+      children.set(segment, removed);
+    } else {
+      children.delete(segment);
+    }
+    updated = { ...node, children };
+  }
+  // prune branches that no longer lead to any value, but never the root
+  if (
+    depth > root &&
+    updated.value === undefined &&
+    updated.children.size === 0
+  ) {
+    return undefined;
+  }
+  return updated;
+}
+
+type TreeState<T> = {
+  pattern: string;
+  values: Map<Key, T>;
+  root: WbTreeNode<T>;
+};
+
+// the tree is derived from the shared subscription, so keys deleted while
+// disconnected disappear after a reconnect and batches are applied at once
+export function useSubscribeTree<T extends Value>(
+  pattern: RequestPattern,
+  unique?: boolean,
+  liveOnly?: boolean,
+  connection?: string
+): WbTreeNode<T> {
+  const values = usePSubscribe<T>(pattern, unique, liveOnly, connection);
+  const treeRef = React.useRef<TreeState<T>>();
+  return React.useMemo(() => {
+    const prefix = literalPrefix(pattern);
+    // only the keys that changed since the last event are applied, so
+    // unchanged branches keep their identity
+    const previous: TreeState<T> =
+      treeRef.current?.pattern === pattern
+        ? treeRef.current
+        : { pattern, values: new Map(), root: emptyNode<T>(prefix) };
+    let root = previous.root;
+    previous.values.forEach((_, key) => {
+      if (!values.has(key)) {
+        root =
+          remove(root, key.split("/"), prefix.length, prefix.length) || root;
+      }
+    });
+    values.forEach((value, key) => {
+      if (!previous.values.has(key) || previous.values.get(key) !== value) {
+        root = insert(root, key.split("/"), prefix.length, value);
+      }
+    });
+    treeRef.current = { pattern, values, root };
+    return root;
+  }, [pattern, values]);
+}
+
+export function usePSubscribeCaptures<T extends Value>(
+  pattern: RequestPattern,
+  unique?: boolean,
+  liveOnly?: boolean,
+  connection?: string
+): PatternCapture<T>[] {
+  const values = usePSubscribe<T>(pattern, unique, liveOnly, connection);
+  return React.useMemo(() => {
+    const entries: PatternCapture<T>[] = [];
+    values.forEach((value, key) => {
+      const captures = matchPattern(pattern, key);
+      if (captures) {
+        entries.push({ key, captures, value });
+      }
+    });
+    return entries;
+  }, [pattern, values]);
+}
@@ -0,0 +1,131 @@
+/*
+ * Copyright 2024 Michael Bachmann
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Key, RequestPattern, Value, Worterbuch } from "worterbuch-js";
+
+export function matchPattern(
+  pattern: RequestPattern,
+  key: Key
+): string[] | undefined {
+  const patternSegments = pattern.split("/");
+  const keySegments = key.split("/");
+  const captures: string[] = [];
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i];
+    if (segment === "#") {
+      if (keySegments.length <= i) {
+        return undefined;
+      }
+      captures.push(keySegments.slice(i).join("/"));
+      return captures;
+    }
+    if (i >= keySegments.length) {
+      return undefined;
+    }
+    if (segment === "?") {
+      captures.push(keySegments[i]);
+    } else if (segment !== keySegments[i]) {
+      return undefined;
+    }
+  }
+  return patternSegments.length === keySegments.length ? captures : undefined;
+}
+
+export function matches(pattern: RequestPattern, key: Key): boolean {
+  return matchPattern(pattern, key) !== undefined;
+}
+
+// true if at least one key can match both patterns
+export function overlaps(a: RequestPattern, b: RequestPattern): boolean {
+  const aSegments = a.split("/");
+  const bSegments = b.split("/");
+  for (let i = 0; i < Math.max(aSegments.length, bSegments.length); i++) {
+    const x = aSegments[i];
+    const y = bSegments[i];
+    if (x === "#") {
+      return i < bSegments.length;
+    }
+    if (y === "#") {
+      return i < aSegments.length;
+    }
+    if (x === undefined || y === undefined) {
+      return false;
+    }
+    if (x !== "?" && y !== "?" && x !== y) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// grave goods and last will are replaced as a whole, so updates of the same
+// client have to be serialized, no matter which wrapper of the connection or
+// which shared tab they come from
+const willUpdates = new Map<string, Promise<void>>();
+
+export function updateWill<R>(
+  conn: Worterbuch,
+  action: () => Promise<R>
+): Promise<R> {
+  const clientId = conn.clientId();
+  const next = (willUpdates.get(clientId) || Promise.resolve()).then(action);
+  const settled = next.then(
+    () => undefined,
+    () => undefined
+  );
+  willUpdates.set(clientId, settled);
+  settled.then(() => {
+    if (willUpdates.get(clientId) === settled) {
+      willUpdates.delete(clientId);
+    }
+  });
+  return next;
+}
+
+export function browserStorage(): Storage | undefined {
+  // 'window' is not declared at all during server side rendering
+  return typeof window !== "undefined" ? window.localStorage : undefined;
+}
+
+export function deepEqual(a: Value | undefined, b: Value | undefined): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (
+    a === null ||
+    b === null ||
+    a === undefined ||
+    b === undefined ||
+    typeof a !== "object" ||
+    typeof b !== "object"
+  ) {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) {
+      return false;
+    }
+    return a.every((v, i) => deepEqual(v, b[i]));
+  }
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) {
+    return false;
+  }
+  return aKeys.every(
+    (k) => Object.prototype.hasOwnProperty.call(b, k) && deepEqual(a[k], b[k])
+  );
+}